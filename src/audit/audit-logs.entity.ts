@@ -0,0 +1,110 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  BeforeUpdate,
+  BeforeBulkUpdate,
+  BeforeDestroy,
+  BeforeBulkDestroy,
+} from 'sequelize-typescript';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Append-only record of security and admin actions. Actor and target ids
+ * are plain columns rather than foreign keys, so entries outlive the rows
+ * they describe.
+ */
+@Table({
+  tableName: 'audit_logs',
+  timestamps: true,
+  updatedAt: false,
+  indexes: [
+    { fields: ['actorId'] },
+    { fields: ['action'] },
+    { fields: ['targetType', 'targetId'] },
+    { fields: ['requestId'] },
+    { fields: ['createdAt'] },
+  ],
+})
+export class AuditLogs extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  // Null for anonymous requests such as failed sign-ins
+  @AllowNull(true)
+  @Column({
+    type: DataType.UUID,
+  })
+  actorId: string | null;
+
+  // e.g. auth.login, user.update, session.revoke
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(100),
+  })
+  action: string;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.STRING(50),
+  })
+  targetType: string | null;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.STRING(255),
+  })
+  targetId: string | null;
+
+  // Changed fields only, with secrets redacted
+  @AllowNull(true)
+  @Column({
+    type: DataType.JSONB,
+  })
+  before: Record<string, unknown> | null;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.JSONB,
+  })
+  after: Record<string, unknown> | null;
+
+  // Extra context such as a failure reason or revocation cause
+  @AllowNull(true)
+  @Column({
+    type: DataType.JSONB,
+  })
+  metadata: Record<string, unknown> | null;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.STRING(45),
+  })
+  ipAddress: string | null;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.TEXT,
+  })
+  userAgent: string | null;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.STRING(100),
+  })
+  requestId: string | null;
+
+  @BeforeUpdate
+  @BeforeBulkUpdate
+  @BeforeDestroy
+  @BeforeBulkDestroy
+  static preventChanges(): void {
+    throw new Error('Audit log entries are immutable');
+  }
+}
@@ -0,0 +1,27 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { AuditService } from './audit.service';
+import { AuditLogQueryDto } from './dto/audit-log-query.dto';
+import { JwtGuard } from '../common/guards/jwt.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { CONSTANTS } from '../common/utils/constants';
+
+// Guarded by role rather than PermissionsGuard so that RolesModule, whose
+// own routes are audited, can import this module without a cycle
+@Controller('audit-logs')
+@UseGuards(JwtGuard, RolesGuard)
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @Roles(CONSTANTS.USER_ROLES.ADMIN)
+  async findAll(@Query() query: AuditLogQueryDto) {
+    return this.auditService.findAll(query);
+  }
+
+  @Get(':id')
+  @Roles(CONSTANTS.USER_ROLES.ADMIN)
+  async findOne(@Param('id') id: string) {
+    return this.auditService.findById(id);
+  }
+}
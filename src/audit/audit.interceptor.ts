@@ -0,0 +1,97 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { Observable, from } from 'rxjs';
+import { mergeMap, switchMap } from 'rxjs/operators';
+import { AuditService } from './audit.service';
+import { AuditOptions } from '../common/decorators/audit.decorator';
+
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private reflector: Reflector,
+    private auditService: AuditService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const options = this.reflector.get<AuditOptions>(
+      'audit',
+      context.getHandler(),
+    );
+
+    if (!options) {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const idParam = options.idParam || 'id';
+    const { [idParam]: paramId, ...otherParams } = request.params;
+
+    return from(this.snapshot(options, paramId, request.params)).pipe(
+      switchMap((before) =>
+        next.handle().pipe(
+          mergeMap(async (response: unknown) => {
+            const after = this.asRecord(response);
+            const targetId =
+              (options.lookup
+                ? (before as { id?: string } | null)?.id
+                : paramId) ||
+              (after as { id?: string } | null)?.id ||
+              null;
+
+            await this.auditService.record({
+              action: options.action,
+              targetType: options.targetType,
+              targetId,
+              before,
+              after: options.model
+                ? await this.snapshot(options, targetId, request.params)
+                : after,
+              metadata:
+                Object.keys(otherParams).length > 0 ? otherParams : undefined,
+            });
+
+            return response;
+          }),
+        ),
+      ),
+    );
+  }
+
+  private async snapshot(
+    options: AuditOptions,
+    id: string | null,
+    params: Record<string, string>,
+  ): Promise<object | null> {
+    if (!options.model || (!id && !options.lookup)) {
+      return null;
+    }
+
+    try {
+      // Include soft-deleted rows so deletes and restores show up
+      const row = options.lookup
+        ? await options.model.findOne({
+            where: Object.fromEntries(
+              options.lookup.map((param) => [param, params[param]]),
+            ),
+            paranoid: false,
+          })
+        : await options.model.findByPk(id!, { paranoid: false });
+      return row ? row.toJSON() : null;
+    } catch {
+      // A malformed id fails here first; let the handler report it
+      return null;
+    }
+  }
+
+  private asRecord(response: unknown): object | null {
+    return response && typeof response === 'object' && !Array.isArray(response)
+      ? response
+      : null;
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../db/database.module';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+import { auditProviders } from './audit.provider';
+
+@Module({
+  imports: [DatabaseModule],
+  providers: [AuditService, ...auditProviders],
+  controllers: [AuditController],
+  exports: [AuditService],
+})
+export class AuditModule {}
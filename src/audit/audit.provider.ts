@@ -0,0 +1,8 @@
+import { AuditLogs } from './audit-logs.entity';
+
+export const auditProviders = [
+  {
+    provide: 'AUDIT_LOGS_REPOSITORY',
+    useValue: AuditLogs,
+  },
+];
@@ -0,0 +1,226 @@
+import { Injectable, Inject, Logger, NotFoundException } from '@nestjs/common';
+import { Op, WhereOptions } from 'sequelize';
+import { AuditLogs } from './audit-logs.entity';
+import { ClientContextUtil } from '../common/utils/client-context.util';
+import { RequestContextUtil } from '../common/utils/request-context.util';
+import { QueryUtil } from '../common/utils/query.util';
+import { CursorUtil } from '../common/utils/cursor.util';
+import { AuditLogQueryDto } from './dto/audit-log-query.dto';
+import { AuditLogResponseDto } from './dto/audit-log-response.dto';
+
+export interface AuditEntry {
+  action: string;
+  // Defaults to the authenticated user of the current request
+  actorId?: string | null;
+  targetType?: string | null;
+  targetId?: string | null;
+  before?: object | null;
+  after?: object | null;
+  metadata?: Record<string, unknown>;
+}
+
+// Field names whose values never reach the audit log
+const SECRET_FIELDS = /password|secret|token|hash|recoverycode/i;
+
+// Bookkeeping fields left out of before/after diffs
+const IGNORED_FIELDS = ['updatedAt'];
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger('Audit');
+
+  constructor(
+    @Inject('AUDIT_LOGS_REPOSITORY')
+    private readonly auditLogsRepository: typeof AuditLogs,
+  ) {}
+
+  /**
+   * Appends an entry, stamped with the caller's IP, user agent and request
+   * id. A failed write is logged but never fails the audited action.
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    const context = RequestContextUtil.current();
+    const client = context
+      ? ClientContextUtil.fromRequest(context.request)
+      : null;
+    const user = (context?.request as { user?: { sub?: string } } | undefined)
+      ?.user;
+    // Diff before redacting, so a changed secret still shows as changed
+    const { before, after } = this.diff(
+      this.toPlain(entry.before),
+      this.toPlain(entry.after),
+    );
+
+    try {
+      await this.auditLogsRepository.create({
+        actorId:
+          entry.actorId !== undefined ? entry.actorId : user?.sub || null,
+        action: entry.action,
+        targetType: entry.targetType || null,
+        targetId: entry.targetId || null,
+        before: this.redact(before),
+        after: this.redact(after),
+        metadata: this.redact(this.toPlain(entry.metadata)),
+        ipAddress: client?.ipAddress || null,
+        userAgent: client?.userAgent || null,
+        requestId: context?.requestId || null,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record audit entry ${entry.action}`,
+        (error as Error).stack,
+      );
+    }
+  }
+
+  async findAll(query: AuditLogQueryDto): Promise<any> {
+    const where = this.buildWhere(query);
+
+    if (CursorUtil.requested(query)) {
+      const { rows, nextCursor, prevCursor } = await CursorUtil.paginate(
+        this.auditLogsRepository,
+        'audit-logs',
+        query.cursor,
+        query.limit,
+        { where },
+      );
+
+      return {
+        data: rows.map((log) => this.toResponseDto(log)),
+        limit: query.limit,
+        nextCursor,
+        prevCursor,
+      };
+    }
+
+    const { offset, limit } = QueryUtil.paginate(query);
+    const { count, rows } = await this.auditLogsRepository.findAndCountAll({
+      where,
+      offset,
+      limit,
+      order: QueryUtil.order(query.sort, ['createdAt', 'action']),
+    });
+
+    return {
+      data: rows.map((log) => this.toResponseDto(log)),
+      total: count,
+      page: query.page,
+      limit,
+      pages: Math.ceil(count / limit),
+    };
+  }
+
+  async findById(id: string): Promise<AuditLogResponseDto> {
+    const log = await this.auditLogsRepository.findByPk(id);
+
+    if (!log) {
+      throw new NotFoundException('Audit log entry not found');
+    }
+
+    return this.toResponseDto(log);
+  }
+
+  private buildWhere(query: AuditLogQueryDto): WhereOptions {
+    let action: WhereOptions | undefined;
+    if (query.action?.endsWith('.')) {
+      action = {
+        action: {
+          [Op.startsWith]: query.action.replace(/[\\%_]/g, '\\$&'),
+        },
+      };
+    } else if (query.action) {
+      action = { action: query.action };
+    }
+
+    return QueryUtil.and(
+      QueryUtil.search(['action', 'targetType', 'targetId'], query.search),
+      action,
+      query.actorId ? { actorId: query.actorId } : undefined,
+      query.targetType ? { targetType: query.targetType } : undefined,
+      query.targetId ? { targetId: query.targetId } : undefined,
+      query.requestId ? { requestId: query.requestId } : undefined,
+      QueryUtil.createdAtRange(query),
+    );
+  }
+
+  /**
+   * Keeps only the fields that changed. Creates and deletes, where one side
+   * is missing, are stored whole.
+   */
+  private diff(
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null,
+  ): {
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+  } {
+    if (!before || !after) {
+      return { before, after };
+    }
+
+    const changedBefore: Record<string, unknown> = {};
+    const changedAfter: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const key of keys) {
+      if (IGNORED_FIELDS.includes(key)) continue;
+      if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        changedBefore[key] = before[key] ?? null;
+        changedAfter[key] = after[key] ?? null;
+      }
+    }
+
+    return { before: changedBefore, after: changedAfter };
+  }
+
+  // Round-trip through JSON so model instances and dates become plain data
+  private toPlain(
+    value: object | null | undefined,
+  ): Record<string, unknown> | null {
+    return value
+      ? (JSON.parse(JSON.stringify(value)) as Record<string, unknown>)
+      : null;
+  }
+
+  private redact(
+    value: Record<string, unknown> | null,
+  ): Record<string, unknown> | null {
+    if (!value) {
+      return null;
+    }
+
+    const walk = (node: unknown): unknown => {
+      if (Array.isArray(node)) {
+        return node.map(walk);
+      }
+      if (node && typeof node === 'object') {
+        return Object.fromEntries(
+          Object.entries(node).map(([key, child]) => [
+            key,
+            SECRET_FIELDS.test(key) ? '[REDACTED]' : walk(child),
+          ]),
+        );
+      }
+      return node;
+    };
+
+    return walk(value) as Record<string, unknown>;
+  }
+
+  private toResponseDto(log: AuditLogs): AuditLogResponseDto {
+    return {
+      id: log.id,
+      actorId: log.actorId,
+      action: log.action,
+      targetType: log.targetType,
+      targetId: log.targetId,
+      before: log.before,
+      after: log.after,
+      metadata: log.metadata,
+      ipAddress: log.ipAddress,
+      userAgent: log.userAgent,
+      requestId: log.requestId,
+      createdAt: log.createdAt,
+    };
+  }
+}
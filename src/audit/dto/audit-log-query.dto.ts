@@ -0,0 +1,29 @@
+import { IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { ListQueryDto } from '../../common/dto/list-query.dto';
+
+export class AuditLogQueryDto extends ListQueryDto {
+  @IsUUID()
+  @IsOptional()
+  actorId?: string;
+
+  // Exact action, or a prefix ending in "." such as "auth."
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  action?: string;
+
+  @IsString()
+  @MaxLength(50)
+  @IsOptional()
+  targetType?: string;
+
+  @IsString()
+  @MaxLength(255)
+  @IsOptional()
+  targetId?: string;
+
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  requestId?: string;
+}
@@ -5,45 +5,342 @@ import {
   UseGuards,
   Request,
   HttpCode,
+  Get,
+  Delete,
+  Param,
+  Res,
+  UnauthorizedException,
+  ForbiddenException,
 } from '@nestjs/common';
+import type { Response } from 'express';
 import { AuthService } from './auth.service';
+import { MfaService } from './mfa.service';
+import { EmailVerificationService } from './email-verification.service';
+import { OidcService } from './oidc.service';
+import { SessionsService } from '../sessions/sessions.service';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { VerifyMfaDto } from './dto/verify-mfa.dto';
+import { MfaChallengeDto } from './dto/mfa-challenge.dto';
+import { MfaCodeDto } from './dto/mfa-code.dto';
+import { DisableMfaDto } from './dto/disable-mfa.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ResendVerificationDto } from './dto/resend-verification.dto';
+import { OidcCallbackDto } from './dto/oidc-callback.dto';
 import { JwtGuard } from '../common/guards/jwt.guard';
 import { Public } from '../common/decorators/public.decorator';
+import { ClientContextUtil } from '../common/utils/client-context.util';
+import { AuthCookieUtil } from '../common/utils/auth-cookie.util';
 
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+    private readonly mfaService: MfaService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly oidcService: OidcService,
+  ) {}
 
   @Post('register')
   @Public()
   @HttpCode(201)
-  async register(@Body() registerDto: RegisterDto) {
-    return this.authService.register(registerDto);
+  async register(
+    @Body() registerDto: RegisterDto,
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const result = await this.authService.register(
+      registerDto,
+      ClientContextUtil.fromRequest(req),
+    );
+    return AuthCookieUtil.applyTokens(res, result);
   }
 
   @Post('login')
   @Public()
   @HttpCode(200)
-  async login(@Body() loginDto: LoginDto) {
-    return this.authService.login(loginDto);
+  async login(
+    @Body() loginDto: LoginDto,
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const result = await this.authService.login(
+      loginDto,
+      ClientContextUtil.fromRequest(req),
+    );
+    return AuthCookieUtil.applyTokens(res, result);
+  }
+
+  @Post('mfa/verify')
+  @Public()
+  @HttpCode(200)
+  async verifyMfa(
+    @Body() verifyMfaDto: VerifyMfaDto,
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const result = await this.authService.verifyMfa(
+      verifyMfaDto,
+      ClientContextUtil.fromRequest(req),
+    );
+    return AuthCookieUtil.applyTokens(res, result);
+  }
+
+  @Post('mfa/challenge/setup')
+  @Public()
+  @HttpCode(200)
+  async setupMfaChallenge(@Body() mfaChallengeDto: MfaChallengeDto) {
+    return this.authService.setupMfaChallenge(mfaChallengeDto.mfaToken);
+  }
+
+  @Post('mfa/challenge/confirm')
+  @Public()
+  @HttpCode(200)
+  async confirmMfaChallenge(
+    @Body() verifyMfaDto: VerifyMfaDto,
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const result = await this.authService.confirmMfaChallenge(
+      verifyMfaDto,
+      ClientContextUtil.fromRequest(req),
+    );
+    return AuthCookieUtil.applyTokens(res, result);
+  }
+
+  @Post('mfa/setup')
+  @UseGuards(JwtGuard)
+  @HttpCode(200)
+  async setupMfa(@Request() req: any) {
+    const userId = req.user.sub;
+    return this.mfaService.setup(userId);
+  }
+
+  @Post('mfa/confirm')
+  @UseGuards(JwtGuard)
+  @HttpCode(200)
+  async confirmMfa(@Request() req: any, @Body() mfaCodeDto: MfaCodeDto) {
+    const userId = req.user.sub;
+    return this.mfaService.confirm(userId, mfaCodeDto.code);
+  }
+
+  @Post('mfa/disable')
+  @UseGuards(JwtGuard)
+  @HttpCode(200)
+  async disableMfa(@Request() req: any, @Body() disableMfaDto: DisableMfaDto) {
+    const userId = req.user.sub;
+    await this.mfaService.disable(userId, disableMfaDto);
+    return { message: 'MFA disabled successfully' };
+  }
+
+  @Post('mfa/recovery-codes')
+  @UseGuards(JwtGuard)
+  @HttpCode(200)
+  async regenerateRecoveryCodes(
+    @Request() req: any,
+    @Body() mfaCodeDto: MfaCodeDto,
+  ) {
+    const userId = req.user.sub;
+    return this.mfaService.regenerateRecoveryCodes(userId, mfaCodeDto.code);
+  }
+
+  @Get('oidc/:provider/authorize')
+  @Public()
+  async oidcAuthorize(@Param('provider') provider: string) {
+    return this.oidcService.createAuthorizationUrl(provider);
+  }
+
+  @Post('oidc/:provider/callback')
+  @Public()
+  @HttpCode(200)
+  async oidcCallback(
+    @Param('provider') provider: string,
+    @Body() oidcCallbackDto: OidcCallbackDto,
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const user = await this.oidcService.authenticate(provider, oidcCallbackDto);
+    const result = await this.authService.loginWithIdentity(
+      user,
+      ClientContextUtil.fromRequest(req),
+    );
+    return AuthCookieUtil.applyTokens(res, result);
+  }
+
+  @Post('oidc/:provider/link')
+  @UseGuards(JwtGuard)
+  @HttpCode(200)
+  async oidcLink(@Param('provider') provider: string, @Request() req: any) {
+    const userId = req.user.sub;
+    return this.oidcService.createAuthorizationUrl(provider, userId);
+  }
+
+  @Post('oidc/:provider/link/callback')
+  @UseGuards(JwtGuard)
+  @HttpCode(200)
+  async oidcLinkCallback(
+    @Param('provider') provider: string,
+    @Body() oidcCallbackDto: OidcCallbackDto,
+    @Request() req: any,
+  ) {
+    const userId = req.user.sub;
+    return this.oidcService.link(provider, oidcCallbackDto, userId);
+  }
+
+  @Get('identities')
+  @UseGuards(JwtGuard)
+  async getIdentities(@Request() req: any) {
+    const userId = req.user.sub;
+    return this.oidcService.findIdentities(userId);
+  }
+
+  @Delete('identities/:id')
+  @UseGuards(JwtGuard)
+  async unlinkIdentity(@Param('id') id: string, @Request() req: any) {
+    const userId = req.user.sub;
+    await this.oidcService.unlink(userId, id);
+    return { message: 'Identity unlinked successfully' };
   }
 
   @Post('refresh')
   @Public()
   @HttpCode(200)
-  async refresh(@Body() refreshTokenDto: RefreshTokenDto) {
-    return this.authService.refreshAccessToken(refreshTokenDto);
+  async refresh(
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const result = await this.authService.refreshAccessToken(
+      this.getRefreshToken(req, refreshTokenDto),
+      ClientContextUtil.fromRequest(req),
+    );
+    return AuthCookieUtil.applyTokens(res, result);
   }
 
   @Post('logout')
   @UseGuards(JwtGuard)
   @HttpCode(200)
-  async logout(@Request() req: any, @Body() refreshTokenDto: RefreshTokenDto) {
+  async logout(
+    @Request() req: any,
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
     const userId = req.user.sub;
-    await this.authService.logout(userId, refreshTokenDto.refreshToken);
+    await this.authService.logout(
+      userId,
+      this.getRefreshToken(req, refreshTokenDto),
+    );
+    if (AuthCookieUtil.isEnabled()) {
+      AuthCookieUtil.clearAuthCookies(res);
+    }
     return { message: 'Logged out successfully' };
   }
+
+  @Post('logout-all')
+  @UseGuards(JwtGuard)
+  @HttpCode(200)
+  async logoutAll(
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const userId = req.user.sub;
+    await this.sessionsService.revokeAll(userId, 'logout_all');
+    if (AuthCookieUtil.isEnabled()) {
+      AuthCookieUtil.clearAuthCookies(res);
+    }
+    return { message: 'Logged out of all sessions successfully' };
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtGuard)
+  async getSessions(@Request() req: any) {
+    const userId = req.user.sub;
+    return this.sessionsService.findActive(userId, req.user.sid);
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(JwtGuard)
+  async revokeSession(@Param('id') id: string, @Request() req: any) {
+    const userId = req.user.sub;
+    await this.sessionsService.revoke(userId, id);
+    return { message: 'Session revoked successfully' };
+  }
+
+  @Post('verify-email')
+  @Public()
+  @HttpCode(200)
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    await this.emailVerificationService.verify(verifyEmailDto.token);
+    return { message: 'Email verified successfully' };
+  }
+
+  @Post('resend-verification')
+  @Public()
+  @HttpCode(200)
+  async resendVerification(
+    @Body() resendVerificationDto: ResendVerificationDto,
+  ) {
+    await this.emailVerificationService.resend(resendVerificationDto.email);
+    return {
+      message:
+        'If an unverified account exists for this email, a new link has been sent',
+    };
+  }
+
+  @Post('forgot-password')
+  @Public()
+  @HttpCode(200)
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    await this.authService.forgotPassword(forgotPasswordDto);
+    return {
+      message:
+        'If an account exists for this email, a reset link has been sent',
+    };
+  }
+
+  @Post('reset-password')
+  @Public()
+  @HttpCode(200)
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    await this.authService.resetPassword(resetPasswordDto);
+    return { message: 'Password has been reset successfully' };
+  }
+
+  @Post('change-password')
+  @UseGuards(JwtGuard)
+  @HttpCode(200)
+  async changePassword(
+    @Request() req: any,
+    @Body() changePasswordDto: ChangePasswordDto,
+  ) {
+    await this.authService.changePassword(
+      req.user.sub,
+      changePasswordDto,
+      req.user.sid,
+    );
+    return { message: 'Password changed successfully' };
+  }
+
+  // Body token takes precedence; otherwise fall back to the cookie,
+  // which needs the same CSRF proof as any other cookie-authed request
+  private getRefreshToken(req: any, refreshTokenDto: RefreshTokenDto): string {
+    if (refreshTokenDto.refreshToken) {
+      return refreshTokenDto.refreshToken;
+    }
+
+    const cookieToken = AuthCookieUtil.getRefreshToken(req);
+    if (!cookieToken) {
+      throw new UnauthorizedException('No refresh token provided');
+    }
+    if (!AuthCookieUtil.hasValidCsrfToken(req)) {
+      throw new ForbiddenException('Invalid CSRF token');
+    }
+
+    return cookieToken;
+  }
 }
@@ -9,6 +9,7 @@ import {
   BelongsTo,
 } from 'sequelize-typescript';
 import { Users } from '../users/users.entity';
+import { Devices } from '../devices/devices.entity';
 import { v4 as uuidv4 } from 'uuid';
 
 @Table({
@@ -16,7 +17,9 @@ import { v4 as uuidv4 } from 'uuid';
   timestamps: true,
   indexes: [
     { fields: ['userId'] },
-    { fields: ['token'] },
+    { fields: ['tokenHash'], unique: true },
+    { fields: ['familyId'] },
+    { fields: ['deviceId'] },
     { fields: ['expiresAt'] },
   ],
 })
@@ -35,11 +38,25 @@ export class RefreshTokens extends Model {
   })
   userId: string;
 
+  // SHA-256 of the refresh JWT; the raw token is never stored
   @AllowNull(false)
   @Column({
-    type: DataType.TEXT,
+    type: DataType.STRING(64),
+  })
+  tokenHash: string;
+
+  // Every token issued by rotating the same login shares a family
+  @AllowNull(false)
+  @Column({
+    type: DataType.UUID,
+  })
+  familyId: string;
+
+  @Default(null)
+  @Column({
+    type: DataType.UUID,
   })
-  token: string;
+  replacedById: string;
 
   @AllowNull(false)
   @Column({
@@ -59,7 +76,43 @@ export class RefreshTokens extends Model {
   })
   revokedReason: string;
 
+  @AllowNull(true)
+  @Column({
+    type: DataType.TEXT,
+  })
+  userAgent: string;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.STRING(45),
+  })
+  ipAddress: string;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.STRING(100),
+  })
+  deviceLabel: string;
+
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  lastUsedAt: Date;
+
+  // Registered device the session was started from, if the client sent
+  // a fingerprint
+  @AllowNull(true)
+  @ForeignKey(() => Devices)
+  @Column({
+    type: DataType.UUID,
+  })
+  deviceId: string;
+
   // Relationships
-  @BelongsTo(() => Users)
+  @BelongsTo(() => Users, { onDelete: 'CASCADE' })
   user: Users;
+
+  @BelongsTo(() => Devices, { onDelete: 'SET NULL' })
+  device: Devices;
 }
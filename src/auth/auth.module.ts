@@ -1,18 +1,45 @@
 import { Module, NestModule, MiddlewareConsumer } from '@nestjs/common';
 import { DatabaseModule } from '../db/database.module';
 import { UsersModule } from '../users/users.module';
+import { MailModule } from '../mail/mail.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { RolesModule } from '../roles/roles.module';
+import { AuditModule } from '../audit/audit.module';
+import { DevicesModule } from '../devices/devices.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { JobsModule } from '../jobs/jobs.module';
 import { AuthService } from './auth.service';
+import { MfaService } from './mfa.service';
+import { EmailVerificationService } from './email-verification.service';
+import { OidcService } from './oidc.service';
 import { AuthController } from './auth.controller';
 import { authProviders } from './auth.provider';
 import {
   loginLimiter,
+  passwordResetLimiter,
   registerLimiter,
   strictLimiter,
 } from '../common/middleware/rate-limit.middleware';
 
 @Module({
-  imports: [DatabaseModule, UsersModule],
-  providers: [AuthService, ...authProviders],
+  imports: [
+    DatabaseModule,
+    UsersModule,
+    MailModule,
+    SessionsModule,
+    RolesModule,
+    AuditModule,
+    DevicesModule,
+    NotificationsModule,
+    JobsModule,
+  ],
+  providers: [
+    AuthService,
+    MfaService,
+    EmailVerificationService,
+    OidcService,
+    ...authProviders,
+  ],
   controllers: [AuthController],
   exports: [AuthService],
 })
@@ -22,6 +49,11 @@ export class AuthModule implements NestModule {
     // Limit: 5 attempts per 5 minutes per IP
     consumer.apply(loginLimiter).forRoutes('auth/login');
 
+    // Second factor codes get the same brute force protection as passwords
+    consumer
+      .apply(loginLimiter)
+      .forRoutes('auth/mfa/verify', 'auth/mfa/challenge/confirm');
+
     // Apply register rate limiter to POST /auth/register
     // Limit: 3 registrations per 1 hour per IP
     consumer.apply(registerLimiter).forRoutes('auth/register');
@@ -29,5 +61,20 @@ export class AuthModule implements NestModule {
     // Apply strict rate limiter to POST /auth/refresh
     // Limit: 10 attempts per 15 minutes per IP
     consumer.apply(strictLimiter).forRoutes('auth/refresh');
+
+    // Apply strict rate limiter to email verification
+    // Limit: 10 attempts per 15 minutes per IP
+    consumer
+      .apply(strictLimiter)
+      .forRoutes('auth/verify-email', 'auth/resend-verification');
+
+    // Apply strict rate limiter to OIDC sign-in callbacks
+    consumer.apply(strictLimiter).forRoutes('auth/oidc/:provider/callback');
+
+    // Apply password reset rate limiter to forgot/reset password
+    // Limit: 3 attempts per 15 minutes per IP
+    consumer
+      .apply(passwordResetLimiter)
+      .forRoutes('auth/forgot-password', 'auth/reset-password');
   }
 }
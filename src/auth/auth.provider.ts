@@ -1,8 +1,33 @@
 import { RefreshTokens } from './auth.entity';
+import { PasswordResetTokens } from './password-reset-tokens.entity';
+import { MfaRecoveryCodes } from './mfa-recovery-codes.entity';
+import { EmailVerificationTokens } from './email-verification-tokens.entity';
+import { UserIdentities } from './user-identities.entity';
+import { OidcAuthRequests } from './oidc-auth-requests.entity';
 
 export const authProviders = [
   {
     provide: 'REFRESH_TOKENS_REPOSITORY',
     useValue: RefreshTokens,
   },
+  {
+    provide: 'PASSWORD_RESET_TOKENS_REPOSITORY',
+    useValue: PasswordResetTokens,
+  },
+  {
+    provide: 'MFA_RECOVERY_CODES_REPOSITORY',
+    useValue: MfaRecoveryCodes,
+  },
+  {
+    provide: 'EMAIL_VERIFICATION_TOKENS_REPOSITORY',
+    useValue: EmailVerificationTokens,
+  },
+  {
+    provide: 'USER_IDENTITIES_REPOSITORY',
+    useValue: UserIdentities,
+  },
+  {
+    provide: 'OIDC_AUTH_REQUESTS_REPOSITORY',
+    useValue: OidcAuthRequests,
+  },
 ];
@@ -1,6 +1,8 @@
 import {
   Injectable,
   Inject,
+  Logger,
+  OnModuleInit,
   BadRequestException,
   UnauthorizedException,
   ConflictException,
@@ -8,78 +10,199 @@ import {
 import { JwtService } from '@nestjs/jwt';
 import * as jwt from 'jsonwebtoken';
 import * as bcrypt from 'bcryptjs';
+import * as crypto from 'crypto';
+import { Op } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
 import { UsersService } from '../users/users.service';
+import { PasswordPolicyService } from '../users/password-policy.service';
+import { Users } from '../users/users.entity';
+import { MailService } from '../mail/mail.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { RolesService } from '../roles/roles.service';
+import { AuditService } from '../audit/audit.service';
+import { DevicesService } from '../devices/devices.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { JobsService } from '../jobs/jobs.service';
+import { ClientContext } from '../common/utils/client-context.util';
+import { appConfig } from '../config/app.config';
+import { securityConfig } from '../config/security.config';
+import { authConfig } from '../config/auth.config';
 import { RefreshTokens } from './auth.entity';
+import { MfaService } from './mfa.service';
+import { EmailVerificationService } from './email-verification.service';
+import { PasswordResetTokens } from './password-reset-tokens.entity';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
-import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { VerifyMfaDto } from './dto/verify-mfa.dto';
+import { MfaChallengeResponseDto } from './dto/mfa-challenge-response.dto';
+import { MfaSetupResponseDto } from './dto/mfa-setup-response.dto';
+import { RegisterPendingResponseDto } from './dto/register-pending-response.dto';
+
+interface TokenSubject {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  emailVerifiedAt: Date | null;
+}
 
 @Injectable()
-export class AuthService {
+export class AuthService implements OnModuleInit {
+  private readonly logger = new Logger('Auth');
+
   constructor(
     private jwtService: JwtService,
     private usersService: UsersService,
+    private passwordPolicyService: PasswordPolicyService,
+    private mailService: MailService,
+    private sessionsService: SessionsService,
+    private rolesService: RolesService,
+    private mfaService: MfaService,
+    private emailVerificationService: EmailVerificationService,
+    private auditService: AuditService,
+    private devicesService: DevicesService,
+    private notificationsService: NotificationsService,
+    private jobsService: JobsService,
     @Inject('REFRESH_TOKENS_REPOSITORY')
     private readonly refreshTokensRepository: typeof RefreshTokens,
+    @Inject('PASSWORD_RESET_TOKENS_REPOSITORY')
+    private readonly passwordResetTokensRepository: typeof PasswordResetTokens,
   ) {}
 
-  async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
+  onModuleInit(): void {
+    this.jobsService.register(
+      'auth.password_reset_email',
+      ({ userId }: { userId: string }) => this.sendPasswordReset(userId),
+    );
+  }
+
+  async register(
+    registerDto: RegisterDto,
+    context: ClientContext,
+  ): Promise<AuthResponseDto | RegisterPendingResponseDto> {
     // Check if user already exists
     const existingUser = await this.usersService.findByEmail(registerDto.email);
     if (existingUser) {
       throw new ConflictException('User with this email already exists');
     }
 
-    // Create user (password hashing is done in UsersService.create())
-    const user = await this.usersService.create(registerDto);
+    // Create user (password hashing is done in UsersService.create()). The
+    // verification email is queued in the same transaction, so it goes out
+    // only for accounts that were actually created
+    const user = await this.refreshTokensRepository.sequelize!.transaction(
+      async (transaction) => {
+        const created = await this.usersService.create(registerDto, {
+          transaction,
+        });
+        await this.emailVerificationService.queue(created.id, transaction);
+        return created;
+      },
+    );
+    await this.auditService.record({
+      action: 'user.register',
+      actorId: user.id,
+      targetType: 'user',
+      targetId: user.id,
+    });
 
-    // Generate tokens
-    const tokens = this.generateTokens(user.id, user.email, user.role);
+    // Under the "block" policy no tokens are issued until verification
+    if (authConfig.EMAIL_VERIFICATION_POLICY === 'block') {
+      return {
+        verificationRequired: true,
+        message: 'Check your email to verify your account',
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          emailVerified: false,
+        },
+      };
+    }
 
-    // Store refresh token
-    await this.storeRefreshToken(user.id, tokens.refreshToken);
+    const device = await this.devicesService.registerForSignIn(
+      user.id,
+      context,
+    );
 
-    return {
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
-      expiresIn: this.getExpirySeconds(process.env.JWT_EXPIRY || '15m'),
-      tokenType: 'Bearer',
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      },
-    };
+    // Generate tokens and start a new refresh token family
+    const tokens = await this.issueTokens(user, context, undefined, device?.id);
+
+    return this.buildAuthResponse(user, tokens);
   }
 
-  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
+  async login(
+    loginDto: LoginDto,
+    context: ClientContext,
+  ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
     // Find user by email
     const user = await this.usersService.findByEmail(loginDto.email);
     if (!user) {
+      await this.recordLoginFailure(null, loginDto.email, 'unknown_email');
       throw new UnauthorizedException('Invalid email or password');
     }
 
+    // Check the lock before the password, so a locked account does not
+    // reveal whether a guess was right
+    if (user.lockedUntil && new Date() < user.lockedUntil) {
+      await this.recordLoginFailure(user, loginDto.email, 'locked');
+      throw new UnauthorizedException('Account is locked. Try again later');
+    }
+
     // Validate password
     const isPasswordValid = await bcrypt.compare(
       loginDto.password,
       user.password,
     );
     if (!isPasswordValid) {
-      // Increment failed attempts
-      await user.increment('failedLoginAttempts');
-
-      // Lock account after 5 failed attempts
-      if (user.failedLoginAttempts >= 5) {
-        const lockUntil = new Date(Date.now() + 30 * 60 * 1000); // Lock for 30 minutes
-        await user.update({ lockedUntil: lockUntil });
-        throw new UnauthorizedException('Account locked due to too many failed attempts');
-      }
-
+      await this.recordLoginFailure(user, loginDto.email, 'invalid_password');
+      await this.recordFailedLogin(user);
       throw new UnauthorizedException('Invalid email or password');
     }
 
+    // Check if account is active
+    if (!user.isActive) {
+      await this.recordLoginFailure(user, loginDto.email, 'disabled');
+      throw new UnauthorizedException('Account is disabled');
+    }
+
+    // Check if email is verified
+    if (
+      authConfig.EMAIL_VERIFICATION_POLICY === 'block' &&
+      !user.emailVerifiedAt
+    ) {
+      await this.recordLoginFailure(user, loginDto.email, 'unverified');
+      throw new UnauthorizedException('Email address is not verified');
+    }
+
+    // Expired passwords have to be replaced through forgot-password
+    if (this.passwordPolicyService.isExpired(user)) {
+      await this.recordLoginFailure(user, loginDto.email, 'password_expired');
+      throw new UnauthorizedException(
+        'Password has expired. Reset it to sign in',
+      );
+    }
+
+    // Accounts with MFA (or whose role mandates it) need a second step
+    if (user.mfaEnabled || (await this.mfaService.isRequiredFor(user))) {
+      return this.createMfaChallenge(user);
+    }
+
+    return this.completeLogin(user, context);
+  }
+
+  /**
+   * Signs in a user already authenticated by an external identity
+   * provider. Lock, status and MFA rules still apply.
+   */
+  async loginWithIdentity(
+    user: Users,
+    context: ClientContext,
+  ): Promise<AuthResponseDto | MfaChallengeResponseDto> {
     // Check if account is locked
     if (user.lockedUntil && new Date() < user.lockedUntil) {
       throw new UnauthorizedException('Account is locked. Try again later');
@@ -90,19 +213,294 @@ export class AuthService {
       throw new UnauthorizedException('Account is disabled');
     }
 
-    // Reset failed attempts on successful login
+    if (user.mfaEnabled || (await this.mfaService.isRequiredFor(user))) {
+      return this.createMfaChallenge(user);
+    }
+
+    return this.completeLogin(user, context);
+  }
+
+  async verifyMfa(
+    verifyMfaDto: VerifyMfaDto,
+    context: ClientContext,
+  ): Promise<AuthResponseDto> {
+    const user = await this.getMfaChallengeUser(verifyMfaDto.mfaToken);
+
+    if (!user.mfaEnabled) {
+      throw new UnauthorizedException('MFA enrollment is required');
+    }
+
+    const isCodeValid = await this.mfaService.verify(user, verifyMfaDto.code);
+    if (!isCodeValid) {
+      await this.recordFailedLogin(user);
+      throw new UnauthorizedException('Invalid verification code');
+    }
+
+    return this.completeLogin(user, context);
+  }
+
+  async setupMfaChallenge(mfaToken: string): Promise<MfaSetupResponseDto> {
+    const user = await this.getMfaChallengeUser(mfaToken);
+    return this.mfaService.setup(user.id);
+  }
+
+  async confirmMfaChallenge(
+    verifyMfaDto: VerifyMfaDto,
+    context: ClientContext,
+  ): Promise<AuthResponseDto & { recoveryCodes: string[] }> {
+    const user = await this.getMfaChallengeUser(verifyMfaDto.mfaToken);
+    const { recoveryCodes } = await this.mfaService.confirm(
+      user.id,
+      verifyMfaDto.code,
+    );
+    await user.reload();
+
+    const response = await this.completeLogin(user, context);
+    return { ...response, recoveryCodes };
+  }
+
+  async refreshAccessToken(
+    refreshToken: string,
+    context: ClientContext,
+  ): Promise<any> {
+    // Verify refresh token
+    let payload: any;
+    try {
+      payload = this.jwtService.verify(refreshToken, {
+        secret: process.env.JWT_REFRESH_SECRET,
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    // Look up the stored token by hash
+    const storedToken = await this.refreshTokensRepository.findOne({
+      where: {
+        tokenHash: this.hashToken(refreshToken),
+        userId: payload.sub,
+      },
+    });
+
+    if (!storedToken) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    // A rotated token being presented again means it was stolen:
+    // revoke the whole family so neither party can keep refreshing
+    if (storedToken.isRevoked) {
+      if (storedToken.revokedReason === 'rotated') {
+        await this.revokeFamily(storedToken.familyId, 'reuse_detected');
+      }
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (new Date() > new Date(storedToken.expiresAt)) {
+      throw new UnauthorizedException('Refresh token is invalid or expired');
+    }
+
+    // A token bound to a device only refreshes from that device
+    if (
+      storedToken.deviceId &&
+      !(await this.devicesService.isRegistered(
+        storedToken.userId,
+        storedToken.deviceId,
+        context.deviceFingerprint,
+      ))
+    ) {
+      await this.revokeFamily(storedToken.familyId, 'device_mismatch');
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    // Rotate: mark the presented token as used. If a concurrent request
+    // already rotated it, treat this as reuse as well.
+    const [affected] = await this.refreshTokensRepository.update(
+      { isRevoked: true, revokedReason: 'rotated' },
+      { where: { id: storedToken.id, isRevoked: false } },
+    );
+    if (affected === 0) {
+      await this.revokeFamily(storedToken.familyId, 'reuse_detected');
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    // Get user
+    const user = await this.usersService.findById(payload.sub);
+    if (!user.isActive) {
+      await this.revokeFamily(storedToken.familyId, 'account_disabled');
+      throw new UnauthorizedException('Account is disabled');
+    }
+
+    // Issue the next token pair in the same family
+    const tokens = await this.issueTokens(
+      user,
+      context,
+      storedToken.familyId,
+      storedToken.deviceId,
+    );
+    await storedToken.update({ replacedById: tokens.refreshTokenId });
+
+    return {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: this.getExpirySeconds(process.env.JWT_EXPIRY || '15m'),
+      tokenType: 'Bearer',
+    };
+  }
+
+  async logout(userId: string, refreshToken: string): Promise<void> {
+    // Revoke refresh token
+    const [affected] = await this.refreshTokensRepository.update(
+      { isRevoked: true, revokedReason: 'logout' },
+      {
+        where: {
+          userId,
+          tokenHash: this.hashToken(refreshToken),
+          isRevoked: false,
+        },
+      },
+    );
+
+    if (affected > 0) {
+      await this.auditService.record({
+        action: 'auth.logout',
+        targetType: 'user',
+        targetId: userId,
+      });
+    }
+  }
+
+  async forgotPassword(forgotPasswordDto: ForgotPasswordDto): Promise<void> {
+    const user = await this.usersService.findByEmail(forgotPasswordDto.email);
+
+    // Respond identically for unknown emails to avoid account enumeration.
+    // Queueing also keeps the response time the same for both cases
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    await this.jobsService.enqueue('auth.password_reset_email', {
+      userId: user.id,
+    });
+  }
+
+  async resetPassword(resetPasswordDto: ResetPasswordDto): Promise<void> {
+    const resetToken = await this.passwordResetTokensRepository.findOne({
+      where: {
+        tokenHash: this.hashToken(resetPasswordDto.token),
+        usedAt: null,
+        expiresAt: { [Op.gt]: new Date() },
+      },
+    });
+
+    if (!resetToken) {
+      throw new BadRequestException('Reset token is invalid or expired');
+    }
+
+    // Mark as used first so the token cannot be replayed concurrently. A
+    // password the policy rejects rolls this back, keeping the link usable
+    await this.passwordResetTokensRepository.sequelize!.transaction(
+      async (transaction) => {
+        const [affected] = await this.passwordResetTokensRepository.update(
+          { usedAt: new Date() },
+          { where: { id: resetToken.id, usedAt: null }, transaction },
+        );
+        if (affected === 0) {
+          throw new BadRequestException('Reset token is invalid or expired');
+        }
+
+        // Update password and clear lockout state
+        await this.usersService.updatePassword(
+          resetToken.userId,
+          resetPasswordDto.newPassword,
+          transaction,
+        );
+      },
+    );
+
+    // Sign out every existing session
+    await this.sessionsService.revokeAll(resetToken.userId, 'password_reset');
+  }
+
+  /**
+   * Changes the password of a signed-in user. Other sessions are signed
+   * out; the one making the change stays active.
+   */
+  async changePassword(
+    userId: string,
+    changePasswordDto: ChangePasswordDto,
+    sessionId?: string,
+  ): Promise<void> {
+    const user = await this.usersService.findEntityById(userId);
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    const isPasswordValid = await bcrypt.compare(
+      changePasswordDto.currentPassword,
+      user.password,
+    );
+    if (!isPasswordValid) {
+      throw new UnauthorizedException('Current password is incorrect');
+    }
+
+    await this.refreshTokensRepository.sequelize!.transaction(
+      async (transaction) => {
+        await this.usersService.updatePassword(
+          userId,
+          changePasswordDto.newPassword,
+          transaction,
+        );
+        await this.notificationsService.queue(
+          userId,
+          'password.changed',
+          {},
+          { transaction },
+        );
+      },
+    );
+    await this.auditService.record({
+      action: 'auth.password_change',
+      targetType: 'user',
+      targetId: userId,
+    });
+
+    await this.sessionsService.revokeAll(userId, 'password_changed', sessionId);
+  }
+
+  private async completeLogin(
+    user: Users,
+    context: ClientContext,
+  ): Promise<AuthResponseDto> {
+    // Refuses the sign-in when the device limit is reached
+    const device = await this.devicesService.registerForSignIn(
+      user.id,
+      context,
+    );
+
+    // Only a completed sign-in, second factor included, clears the failed
+    // attempts and ends the backoff streak
     await user.update({
+      lastLogin: new Date(),
       failedLoginAttempts: 0,
       lockedUntil: null,
-      lastLogin: new Date(),
+      lockoutCount: 0,
+    });
+    await this.auditService.record({
+      action: 'auth.login',
+      actorId: user.id,
+      targetType: 'user',
+      targetId: user.id,
     });
 
-    // Generate tokens
-    const tokens = this.generateTokens(user.id, user.email, user.role);
+    // Generate tokens and start a new refresh token family
+    const tokens = await this.issueTokens(user, context, undefined, device?.id);
 
-    // Store refresh token
-    await this.storeRefreshToken(user.id, tokens.refreshToken);
+    return this.buildAuthResponse(user, tokens);
+  }
 
+  private buildAuthResponse(
+    user: TokenSubject,
+    tokens: { accessToken: string; refreshToken: string; roles: string[] },
+  ): AuthResponseDto {
     return {
       accessToken: tokens.accessToken,
       refreshToken: tokens.refreshToken,
@@ -113,76 +511,217 @@ export class AuthService {
         email: user.email,
         name: user.name,
         role: user.role,
+        roles: tokens.roles,
+        emailVerified: !!user.emailVerifiedAt,
       },
     };
   }
 
-  async refreshAccessToken(refreshTokenDto: RefreshTokenDto): Promise<any> {
+  /**
+   * Counts a failed attempt and locks the account at the threshold. Each
+   * consecutive lock lasts longer than the last, up to the configured cap.
+   */
+  private async recordFailedLogin(user: Users): Promise<void> {
+    // Increment atomically, then read back the value concurrent requests saw
+    await user.increment('failedLoginAttempts');
+    await user.reload();
+
+    if (user.failedLoginAttempts < securityConfig.ACCOUNT_LOCK_THRESHOLD) {
+      return;
+    }
+
+    const duration = Math.min(
+      securityConfig.ACCOUNT_LOCK_DURATION *
+        securityConfig.ACCOUNT_LOCK_BACKOFF_MULTIPLIER ** user.lockoutCount,
+      securityConfig.ACCOUNT_LOCK_MAX_DURATION,
+    );
+    const lockUntil = new Date(Date.now() + duration);
+    await user.update({
+      failedLoginAttempts: 0,
+      lockedUntil: lockUntil,
+      lockoutCount: user.lockoutCount + 1,
+    });
+    await this.auditService.record({
+      action: 'auth.lockout',
+      actorId: null,
+      targetType: 'user',
+      targetId: user.id,
+      metadata: { lockedUntil: lockUntil, lockoutCount: user.lockoutCount },
+    });
+
+    await this.sendLockoutEmail(user, lockUntil);
+
+    throw new UnauthorizedException(
+      'Account locked due to too many failed attempts',
+    );
+  }
+
+  // Runs from the job worker, so the reset link is never stored in the queue
+  private async sendPasswordReset(userId: string): Promise<void> {
+    const user = await this.usersService.findEntityById(userId);
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    // Only the most recently issued link should work
+    await this.passwordResetTokensRepository.update(
+      { usedAt: new Date() },
+      { where: { userId: user.id, usedAt: null } },
+    );
+
+    const token = crypto.randomBytes(32).toString('hex');
+    await this.passwordResetTokensRepository.create({
+      userId: user.id,
+      tokenHash: this.hashToken(token),
+      expiresAt: new Date(
+        Date.now() + securityConfig.PASSWORD_RESET_TOKEN_EXPIRY,
+      ),
+    });
+
+    const resetUrl = `${appConfig.APP_URL}/reset-password?token=${token}`;
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text:
+        `Hi ${user.name || user.email},\n\n` +
+        `Use the link below to choose a new password:\n${resetUrl}\n\n` +
+        'If you did not request this, you can ignore this email.',
+    });
+  }
+
+  private async sendLockoutEmail(user: Users, lockUntil: Date): Promise<void> {
     try {
-      // Verify refresh token
-      const payload = this.jwtService.verify(refreshTokenDto.refreshToken, {
-        secret: process.env.JWT_REFRESH_SECRET,
+      await this.notificationsService.queue(user.id, 'account.locked', {
+        lockedUntil: lockUntil.toUTCString(),
       });
+    } catch (error) {
+      // The lock is already in place; failing to queue must not undo it
+      this.logger.warn(
+        `Queueing lockout notification for ${user.email} failed: ${(error as Error).message}`,
+      );
+    }
+  }
 
-      // Check if refresh token is stored and not revoked
-      const storedToken = await this.refreshTokensRepository.findOne({
-        where: {
-          token: refreshTokenDto.refreshToken,
-          userId: payload.sub,
-          isRevoked: false,
-        },
-      });
+  private createMfaChallenge(user: Users): MfaChallengeResponseDto {
+    const options: any = {
+      expiresIn: authConfig.MFA_TOKEN_EXPIRY,
+      algorithm: 'HS256',
+    };
 
-      if (!storedToken || new Date() > new Date(storedToken.expiresAt)) {
-        throw new UnauthorizedException('Refresh token is invalid or expired');
-      }
+    // Signed with its own secret so it can never pass JwtGuard
+    const mfaToken = jwt.sign(
+      { sub: user.id, type: 'mfa' },
+      authConfig.MFA_TOKEN_SECRET,
+      options,
+    );
 
-      // Get user
-      const user = await this.usersService.findById(payload.sub);
+    return {
+      mfaRequired: true,
+      mfaSetupRequired: !user.mfaEnabled,
+      mfaToken,
+      expiresIn: this.getExpirySeconds(authConfig.MFA_TOKEN_EXPIRY),
+    };
+  }
 
-      // Generate new access token
-      const accessTokenOptions: any = {
-        expiresIn: process.env.JWT_EXPIRY || '15m',
-        algorithm: 'HS256',
-      };
+  private async getMfaChallengeUser(mfaToken: string): Promise<Users> {
+    let payload: any;
+    try {
+      payload = jwt.verify(mfaToken, authConfig.MFA_TOKEN_SECRET, {
+        algorithms: ['HS256'],
+      });
+    } catch {
+      throw new UnauthorizedException('MFA session is invalid or expired');
+    }
 
-      const accessToken = jwt.sign(
-        {
-          sub: user.id,
-          email: user.email,
-          roles: user.role,
-        },
-        process.env.JWT_SECRET || 'dev-secret',
-        accessTokenOptions,
-      );
+    if (payload.type !== 'mfa') {
+      throw new UnauthorizedException('MFA session is invalid or expired');
+    }
 
-      return {
-        accessToken,
-        expiresIn: this.getExpirySeconds(process.env.JWT_EXPIRY || '15m'),
-        tokenType: 'Bearer',
-      };
-    } catch (error) {
-      throw new UnauthorizedException('Invalid refresh token');
+    const user = await this.usersService.findEntityById(payload.sub);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('MFA session is invalid or expired');
+    }
+    if (user.lockedUntil && new Date() < user.lockedUntil) {
+      throw new UnauthorizedException('Account is locked. Try again later');
     }
+
+    return user;
   }
 
-  async logout(userId: string, refreshToken: string): Promise<void> {
-    // Revoke refresh token
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private async revokeFamily(familyId: string, reason: string): Promise<void> {
     await this.refreshTokensRepository.update(
-      { isRevoked: true, revokedReason: 'logout' },
-      {
-        where: {
-          userId,
-          token: refreshToken,
-        },
-      },
+      { isRevoked: true, revokedReason: reason },
+      { where: { familyId, isRevoked: false } },
+    );
+
+    await this.auditService.record({
+      action: 'session.revoke',
+      actorId: null,
+      targetType: 'session',
+      targetId: familyId,
+      metadata: { reason },
+    });
+  }
+
+  private async recordLoginFailure(
+    user: Users | null,
+    email: string,
+    reason: string,
+  ): Promise<void> {
+    await this.auditService.record({
+      action: 'auth.login_failed',
+      actorId: null,
+      targetType: 'user',
+      targetId: user?.id || null,
+      metadata: { email, reason },
+    });
+  }
+
+  private async issueTokens(
+    user: TokenSubject,
+    context: ClientContext,
+    familyId?: string,
+    deviceId?: string | null,
+  ): Promise<{
+    accessToken: string;
+    refreshToken: string;
+    refreshTokenId: string;
+    roles: string[];
+  }> {
+    const refreshTokenId = uuidv4();
+    const sessionId = familyId || refreshTokenId;
+    const roles = await this.rolesService.getRoleNames(user.id, user.role);
+    const tokens = this.generateTokens(
+      user,
+      roles,
+      refreshTokenId,
+      sessionId,
+      deviceId,
     );
+
+    // Store refresh token
+    await this.storeRefreshToken(
+      refreshTokenId,
+      user.id,
+      tokens.refreshToken,
+      sessionId,
+      context,
+      deviceId,
+    );
+
+    return { ...tokens, refreshTokenId, roles };
   }
 
   private generateTokens(
-    userId: string,
-    email: string,
-    role: string,
+    user: TokenSubject,
+    roles: string[],
+    refreshTokenId: string,
+    sessionId: string,
+    deviceId?: string | null,
   ): { accessToken: string; refreshToken: string } {
     const accessTokenOptions: any = {
       expiresIn: process.env.JWT_EXPIRY || '15m',
@@ -191,9 +730,12 @@ export class AuthService {
 
     const accessToken = jwt.sign(
       {
-        sub: userId,
-        email,
-        roles: role,
+        sub: user.id,
+        email: user.email,
+        roles,
+        emailVerified: !!user.emailVerifiedAt,
+        sid: sessionId,
+        did: deviceId || undefined,
       },
       process.env.JWT_SECRET || 'dev-secret',
       accessTokenOptions,
@@ -202,11 +744,12 @@ export class AuthService {
     const refreshTokenOptions: any = {
       expiresIn: process.env.JWT_REFRESH_EXPIRY || '7d',
       algorithm: 'HS256',
+      jwtid: refreshTokenId,
     };
 
     const refreshToken = jwt.sign(
       {
-        sub: userId,
+        sub: user.id,
         type: 'refresh',
       },
       process.env.JWT_REFRESH_SECRET || 'dev-refresh-secret',
@@ -217,17 +760,29 @@ export class AuthService {
   }
 
   private async storeRefreshToken(
+    id: string,
     userId: string,
     token: string,
+    familyId: string,
+    context: ClientContext,
+    deviceId?: string | null,
   ): Promise<void> {
     const expiresAt = new Date(
       Date.now() + this.convertExpiryToMs(process.env.JWT_REFRESH_EXPIRY || '7d'),
     );
 
+    // Only a hash is persisted so a database leak does not expose live tokens
     await this.refreshTokensRepository.create({
+      id,
       userId,
-      token,
+      tokenHash: this.hashToken(token),
+      familyId,
       expiresAt,
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      deviceLabel: context.deviceLabel,
+      deviceId: deviceId || null,
+      lastUsedAt: new Date(),
     });
   }
 
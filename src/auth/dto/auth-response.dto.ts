@@ -8,5 +8,7 @@ export class AuthResponseDto {
     email: string;
     name: string;
     role: string;
+    roles: string[];
+    emailVerified: boolean;
   };
 }
@@ -0,0 +1,9 @@
+import { IsString } from 'class-validator';
+
+export class DisableMfaDto {
+  @IsString()
+  password: string;
+
+  @IsString()
+  code: string;
+}
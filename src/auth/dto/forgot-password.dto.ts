@@ -0,0 +1,6 @@
+import { IsEmail } from 'class-validator';
+
+export class ForgotPasswordDto {
+  @IsEmail({}, { message: 'Email must be valid' })
+  email: string;
+}
@@ -0,0 +1,6 @@
+export class IdentityResponseDto {
+  id: string;
+  provider: string;
+  email: string;
+  createdAt: Date;
+}
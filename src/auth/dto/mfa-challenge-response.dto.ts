@@ -0,0 +1,6 @@
+export class MfaChallengeResponseDto {
+  mfaRequired: true;
+  mfaSetupRequired: boolean;
+  mfaToken: string;
+  expiresIn: number;
+}
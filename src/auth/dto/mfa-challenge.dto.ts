@@ -0,0 +1,6 @@
+import { IsString } from 'class-validator';
+
+export class MfaChallengeDto {
+  @IsString()
+  mfaToken: string;
+}
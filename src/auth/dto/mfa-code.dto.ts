@@ -0,0 +1,6 @@
+import { IsString } from 'class-validator';
+
+export class MfaCodeDto {
+  @IsString()
+  code: string;
+}
@@ -0,0 +1,4 @@
+export class MfaSetupResponseDto {
+  secret: string;
+  otpauthUri: string;
+}
@@ -0,0 +1,9 @@
+import { IsString } from 'class-validator';
+
+export class OidcCallbackDto {
+  @IsString()
+  code: string;
+
+  @IsString()
+  state: string;
+}
@@ -1,6 +1,8 @@
-import { IsString } from 'class-validator';
+import { IsString, IsOptional } from 'class-validator';
 
 export class RefreshTokenDto {
+  // Optional in cookie auth mode, where it is read from the cookie instead
   @IsString()
-  refreshToken: string;
+  @IsOptional()
+  refreshToken?: string;
 }
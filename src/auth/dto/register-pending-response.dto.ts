@@ -0,0 +1,11 @@
+export class RegisterPendingResponseDto {
+  verificationRequired: true;
+  message: string;
+  user: {
+    id: string;
+    email: string;
+    name: string;
+    role: string;
+    emailVerified: boolean;
+  };
+}
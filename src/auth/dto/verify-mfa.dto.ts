@@ -0,0 +1,10 @@
+import { IsString } from 'class-validator';
+
+export class VerifyMfaDto {
+  @IsString()
+  mfaToken: string;
+
+  // A 6 digit authenticator code or a one-time recovery code
+  @IsString()
+  code: string;
+}
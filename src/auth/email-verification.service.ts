@@ -0,0 +1,114 @@
+import {
+  Injectable,
+  Inject,
+  BadRequestException,
+  OnModuleInit,
+} from '@nestjs/common';
+import * as crypto from 'crypto';
+import { Op, Transaction } from 'sequelize';
+import { UsersService } from '../users/users.service';
+import { MailService } from '../mail/mail.service';
+import { JobsService } from '../jobs/jobs.service';
+import { appConfig } from '../config/app.config';
+import { securityConfig } from '../config/security.config';
+import { EmailVerificationTokens } from './email-verification-tokens.entity';
+
+@Injectable()
+export class EmailVerificationService implements OnModuleInit {
+  constructor(
+    private usersService: UsersService,
+    private mailService: MailService,
+    private jobsService: JobsService,
+    @Inject('EMAIL_VERIFICATION_TOKENS_REPOSITORY')
+    private readonly verificationTokensRepository: typeof EmailVerificationTokens,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobsService.register(
+      'auth.verification_email',
+      async ({ userId }: { userId: string }) => {
+        const user = await this.usersService.findEntityById(userId);
+        if (user && user.isActive && !user.emailVerifiedAt) {
+          await this.send(user);
+        }
+      },
+    );
+  }
+
+  /**
+   * Sends the verification email from the job worker. Only the user id is
+   * queued; the link is created when the job runs so it is never stored.
+   */
+  async queue(userId: string, transaction?: Transaction): Promise<void> {
+    await this.jobsService.enqueue(
+      'auth.verification_email',
+      { userId },
+      { transaction },
+    );
+  }
+
+  async send(user: { id: string; email: string; name: string }): Promise<void> {
+    // Only the most recently issued link should work
+    await this.verificationTokensRepository.update(
+      { usedAt: new Date() },
+      { where: { userId: user.id, usedAt: null } },
+    );
+
+    const token = crypto.randomBytes(32).toString('hex');
+    await this.verificationTokensRepository.create({
+      userId: user.id,
+      tokenHash: this.hashToken(token),
+      expiresAt: new Date(
+        Date.now() + securityConfig.EMAIL_VERIFICATION_TOKEN_EXPIRY,
+      ),
+    });
+
+    const verifyUrl = `${appConfig.APP_URL}/verify-email?token=${token}`;
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text:
+        `Hi ${user.name || user.email},\n\n` +
+        `Please confirm your email address using the link below:\n${verifyUrl}\n\n` +
+        'If you did not create an account, you can ignore this email.',
+    });
+  }
+
+  async resend(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+
+    // Respond identically for unknown or verified emails to avoid enumeration
+    if (!user || !user.isActive || user.emailVerifiedAt) {
+      return;
+    }
+
+    await this.queue(user.id);
+  }
+
+  async verify(token: string): Promise<void> {
+    const verificationToken = await this.verificationTokensRepository.findOne({
+      where: {
+        tokenHash: this.hashToken(token),
+        usedAt: null,
+        expiresAt: { [Op.gt]: new Date() },
+      },
+    });
+
+    if (!verificationToken) {
+      throw new BadRequestException('Verification token is invalid or expired');
+    }
+
+    await verificationToken.update({ usedAt: new Date() });
+
+    const user = await this.usersService.findEntityById(
+      verificationToken.userId,
+    );
+    if (user && !user.emailVerifiedAt) {
+      await user.update({ emailVerifiedAt: new Date() });
+    }
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
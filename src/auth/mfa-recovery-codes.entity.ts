@@ -0,0 +1,50 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { Users } from '../users/users.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+@Table({
+  tableName: 'mfa_recovery_codes',
+  timestamps: true,
+  indexes: [{ fields: ['userId'] }, { fields: ['codeHash'] }],
+})
+export class MfaRecoveryCodes extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  userId: string;
+
+  // SHA-256 of the recovery code shown to the user once
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(64),
+  })
+  codeHash: string;
+
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  usedAt: Date;
+
+  // Relationships
+  @BelongsTo(() => Users, { onDelete: 'CASCADE' })
+  user: Users;
+}
@@ -0,0 +1,215 @@
+import {
+  Injectable,
+  Inject,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcryptjs';
+import * as crypto from 'crypto';
+import { UsersService } from '../users/users.service';
+import { RolesService } from '../roles/roles.service';
+import { Users } from '../users/users.entity';
+import { EncryptUtil } from '../common/utils/encrypt.util';
+import { TotpUtil } from '../common/utils/totp.util';
+import { authConfig } from '../config/auth.config';
+import { securityConfig } from '../config/security.config';
+import { MfaRecoveryCodes } from './mfa-recovery-codes.entity';
+import { DisableMfaDto } from './dto/disable-mfa.dto';
+import { MfaSetupResponseDto } from './dto/mfa-setup-response.dto';
+
+@Injectable()
+export class MfaService {
+  constructor(
+    private usersService: UsersService,
+    private rolesService: RolesService,
+    @Inject('MFA_RECOVERY_CODES_REPOSITORY')
+    private readonly recoveryCodesRepository: typeof MfaRecoveryCodes,
+  ) {}
+
+  async isRequiredFor(user: Users): Promise<boolean> {
+    if (authConfig.MFA_REQUIRED_ROLES.length === 0) return false;
+
+    const roles = await this.rolesService.getRoleNames(user.id, user.role);
+    return roles.some((role) => authConfig.MFA_REQUIRED_ROLES.includes(role));
+  }
+
+  async setup(userId: string): Promise<MfaSetupResponseDto> {
+    const user = await this.getUser(userId);
+
+    if (user.mfaEnabled) {
+      throw new ConflictException('MFA is already enabled');
+    }
+
+    // Secret stays pending until confirmed with a valid code
+    const secret = TotpUtil.generateSecret();
+    await user.update({
+      mfaSecret: EncryptUtil.encrypt(secret, securityConfig.ENCRYPTION_KEY),
+      mfaLastUsedStep: null,
+    });
+
+    return {
+      secret,
+      otpauthUri: TotpUtil.buildOtpauthUri(
+        secret,
+        user.email,
+        authConfig.MFA_ISSUER,
+      ),
+    };
+  }
+
+  async confirm(
+    userId: string,
+    code: string,
+  ): Promise<{ recoveryCodes: string[] }> {
+    const user = await this.getUser(userId);
+
+    if (user.mfaEnabled) {
+      throw new ConflictException('MFA is already enabled');
+    }
+    if (!user.mfaSecret) {
+      throw new BadRequestException('MFA setup has not been started');
+    }
+
+    if (!(await this.verifyTotp(user, code))) {
+      throw new BadRequestException('Invalid verification code');
+    }
+
+    await user.update({ mfaEnabled: true });
+
+    return { recoveryCodes: await this.replaceRecoveryCodes(user.id) };
+  }
+
+  async disable(userId: string, disableMfaDto: DisableMfaDto): Promise<void> {
+    const user = await this.getUser(userId);
+
+    if (!user.mfaEnabled) {
+      throw new BadRequestException('MFA is not enabled');
+    }
+    if (await this.isRequiredFor(user)) {
+      throw new ForbiddenException('MFA is mandatory for your role');
+    }
+
+    const isPasswordValid = await bcrypt.compare(
+      disableMfaDto.password,
+      user.password,
+    );
+    if (!isPasswordValid) {
+      throw new UnauthorizedException('Invalid password');
+    }
+    if (!(await this.verify(user, disableMfaDto.code))) {
+      throw new BadRequestException('Invalid verification code');
+    }
+
+    await user.update({
+      mfaEnabled: false,
+      mfaSecret: null,
+      mfaLastUsedStep: null,
+    });
+    await this.recoveryCodesRepository.destroy({ where: { userId } });
+  }
+
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<{ recoveryCodes: string[] }> {
+    const user = await this.getUser(userId);
+
+    if (!user.mfaEnabled) {
+      throw new BadRequestException('MFA is not enabled');
+    }
+    if (!(await this.verifyTotp(user, code))) {
+      throw new BadRequestException('Invalid verification code');
+    }
+
+    return { recoveryCodes: await this.replaceRecoveryCodes(user.id) };
+  }
+
+  /**
+   * Accepts either a current TOTP code or an unused recovery code.
+   */
+  async verify(user: Users, code: string): Promise<boolean> {
+    if (await this.verifyTotp(user, code)) {
+      return true;
+    }
+
+    return this.consumeRecoveryCode(user.id, code);
+  }
+
+  private async verifyTotp(user: Users, code: string): Promise<boolean> {
+    if (!user.mfaSecret) return false;
+
+    const secret = EncryptUtil.decrypt(
+      user.mfaSecret,
+      securityConfig.ENCRYPTION_KEY,
+    );
+    const step = TotpUtil.verify(code.trim(), secret);
+
+    // Reject codes at or before the last accepted step (replay)
+    if (
+      step === null ||
+      (user.mfaLastUsedStep !== null && step <= user.mfaLastUsedStep)
+    ) {
+      return false;
+    }
+
+    await user.update({ mfaLastUsedStep: step });
+    return true;
+  }
+
+  private async consumeRecoveryCode(
+    userId: string,
+    code: string,
+  ): Promise<boolean> {
+    const [affected] = await this.recoveryCodesRepository.update(
+      { usedAt: new Date() },
+      {
+        where: {
+          userId,
+          codeHash: this.hashRecoveryCode(code),
+          usedAt: null,
+        },
+      },
+    );
+
+    return affected > 0;
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    await this.recoveryCodesRepository.destroy({ where: { userId } });
+
+    const codes = Array.from(
+      { length: authConfig.MFA_RECOVERY_CODE_COUNT },
+      () => {
+        const raw = crypto.randomBytes(5).toString('hex');
+        return `${raw.substring(0, 5)}-${raw.substring(5)}`;
+      },
+    );
+
+    await this.recoveryCodesRepository.bulkCreate(
+      codes.map((code) => ({
+        userId,
+        codeHash: this.hashRecoveryCode(code),
+      })),
+    );
+
+    return codes;
+  }
+
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private async getUser(userId: string): Promise<Users> {
+    const user = await this.usersService.findEntityById(userId);
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { Users } from '../users/users.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Pending authorization-code requests. Holds the PKCE verifier and nonce
+ * server-side between the redirect to the provider and the callback.
+ */
+@Table({
+  tableName: 'oidc_auth_requests',
+  timestamps: true,
+  indexes: [{ fields: ['stateHash'], unique: true }, { fields: ['expiresAt'] }],
+})
+export class OidcAuthRequests extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(50),
+  })
+  provider: string;
+
+  // SHA-256 of the state parameter
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(64),
+  })
+  stateHash: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(128),
+  })
+  codeVerifier: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(64),
+  })
+  nonce: string;
+
+  // Set when an authenticated user is linking a new provider
+  @AllowNull(true)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  linkUserId: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.DATE,
+  })
+  expiresAt: Date;
+
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  consumedAt: Date;
+
+  // Relationships
+  @BelongsTo(() => Users, { onDelete: 'CASCADE' })
+  linkUser: Users;
+}
@@ -0,0 +1,389 @@
+import {
+  Injectable,
+  Inject,
+  BadRequestException,
+  BadGatewayException,
+  ConflictException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as crypto from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { Op } from 'sequelize';
+import { UsersService } from '../users/users.service';
+import { Users } from '../users/users.entity';
+import { oidcConfig, OidcProviderConfig } from '../config/oidc.config';
+import { UserIdentities } from './user-identities.entity';
+import { OidcAuthRequests } from './oidc-auth-requests.entity';
+import { OidcCallbackDto } from './dto/oidc-callback.dto';
+import { IdentityResponseDto } from './dto/identity-response.dto';
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  nonce?: string;
+}
+
+@Injectable()
+export class OidcService {
+  private discoveryCache = new Map<string, OidcDiscovery>();
+
+  constructor(
+    private usersService: UsersService,
+    @Inject('USER_IDENTITIES_REPOSITORY')
+    private readonly identitiesRepository: typeof UserIdentities,
+    @Inject('OIDC_AUTH_REQUESTS_REPOSITORY')
+    private readonly authRequestsRepository: typeof OidcAuthRequests,
+  ) {}
+
+  async createAuthorizationUrl(
+    providerName: string,
+    linkUserId?: string,
+  ): Promise<{ authorizationUrl: string }> {
+    const provider = this.getProvider(providerName);
+    const discovery = await this.discover(provider);
+
+    // PKCE (S256) verifier, CSRF state and replay nonce
+    const state = crypto.randomBytes(32).toString('base64url');
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const codeVerifier = crypto.randomBytes(48).toString('base64url');
+    const codeChallenge = crypto
+      .createHash('sha256')
+      .update(codeVerifier)
+      .digest('base64url');
+
+    await this.authRequestsRepository.create({
+      provider: providerName,
+      stateHash: this.hash(state),
+      codeVerifier,
+      nonce,
+      linkUserId: linkUserId || null,
+      expiresAt: new Date(Date.now() + oidcConfig.AUTH_REQUEST_EXPIRY),
+    });
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: provider.redirectUri,
+      scope: provider.scopes,
+      state,
+      nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    });
+
+    return {
+      authorizationUrl: `${discovery.authorization_endpoint}?${params.toString()}`,
+    };
+  }
+
+  /**
+   * Resolves the account for a sign-in callback: an existing linked
+   * identity, else a user with the same verified email (which gets linked),
+   * else a newly created user.
+   */
+  async authenticate(
+    providerName: string,
+    callbackDto: OidcCallbackDto,
+  ): Promise<Users> {
+    const claims = await this.completeAuthorization(
+      providerName,
+      callbackDto,
+      null,
+    );
+
+    const identity = await this.identitiesRepository.findOne({
+      where: { provider: providerName, subject: claims.sub },
+    });
+    if (identity) {
+      const linkedUser = await this.usersService.findEntityById(
+        identity.userId,
+      );
+      if (!linkedUser) {
+        throw new UnauthorizedException('Linked account no longer exists');
+      }
+      return linkedUser;
+    }
+
+    if (!claims.email || !this.isEmailVerified(claims)) {
+      throw new UnauthorizedException(
+        'Identity provider did not return a verified email',
+      );
+    }
+
+    let user = await this.usersService.findByEmail(claims.email);
+    if (!user) {
+      // Random password: the account signs in through the provider, and
+      // can still set a password later via forgot-password
+      const created = await this.usersService.create(
+        {
+          email: claims.email,
+          password: crypto.randomBytes(32).toString('hex'),
+          name: claims.name,
+        },
+        { generatedPassword: true },
+      );
+      user = await this.usersService.findEntityById(created.id);
+    }
+    if (!user) {
+      throw new UnauthorizedException('Unable to sign in');
+    }
+
+    // The provider vouches for the address, so treat it as verified
+    if (!user.emailVerifiedAt) {
+      await user.update({ emailVerifiedAt: new Date() });
+    }
+
+    await this.identitiesRepository.create({
+      userId: user.id,
+      provider: providerName,
+      subject: claims.sub,
+      email: claims.email,
+    });
+
+    return user;
+  }
+
+  async link(
+    providerName: string,
+    callbackDto: OidcCallbackDto,
+    userId: string,
+  ): Promise<IdentityResponseDto> {
+    const claims = await this.completeAuthorization(
+      providerName,
+      callbackDto,
+      userId,
+    );
+
+    const existing = await this.identitiesRepository.findOne({
+      where: { provider: providerName, subject: claims.sub },
+    });
+    if (existing) {
+      if (existing.userId !== userId) {
+        throw new ConflictException(
+          'This account is already linked to another user',
+        );
+      }
+      return this.toResponseDto(existing);
+    }
+
+    const identity = await this.identitiesRepository.create({
+      userId,
+      provider: providerName,
+      subject: claims.sub,
+      email: claims.email || null,
+    });
+
+    return this.toResponseDto(identity);
+  }
+
+  async findIdentities(userId: string): Promise<IdentityResponseDto[]> {
+    const identities = await this.identitiesRepository.findAll({
+      where: { userId },
+      order: [['createdAt', 'ASC']],
+    });
+
+    return identities.map((identity) => this.toResponseDto(identity));
+  }
+
+  async unlink(userId: string, identityId: string): Promise<void> {
+    const identity = await this.identitiesRepository.findOne({
+      where: { id: identityId, userId },
+    });
+
+    if (!identity) {
+      throw new NotFoundException('Linked identity not found');
+    }
+
+    await identity.destroy();
+  }
+
+  private async completeAuthorization(
+    providerName: string,
+    callbackDto: OidcCallbackDto,
+    linkUserId: string | null,
+  ): Promise<OidcClaims> {
+    const provider = this.getProvider(providerName);
+
+    // Consume the pending request so a state can only be used once
+    const authRequest = await this.authRequestsRepository.findOne({
+      where: {
+        provider: providerName,
+        stateHash: this.hash(callbackDto.state),
+        consumedAt: null,
+        expiresAt: { [Op.gt]: new Date() },
+      },
+    });
+    if (!authRequest || (authRequest.linkUserId || null) !== linkUserId) {
+      throw new BadRequestException(
+        'Authorization request is invalid or expired',
+      );
+    }
+    await authRequest.update({ consumedAt: new Date() });
+
+    const discovery = await this.discover(provider);
+    const idToken = await this.exchangeCode(
+      provider,
+      discovery,
+      callbackDto.code,
+      authRequest.codeVerifier,
+    );
+
+    return this.verifyIdToken(provider, discovery, idToken, authRequest.nonce);
+  }
+
+  private async exchangeCode(
+    provider: OidcProviderConfig,
+    discovery: OidcDiscovery,
+    code: string,
+    codeVerifier: string,
+  ): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: provider.redirectUri,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: codeVerifier,
+    });
+
+    const response = await this.request(discovery.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body,
+    });
+    const tokens = await this.readJson<{ id_token?: unknown } | null>(
+      response,
+      'Authorization code was rejected',
+    );
+
+    if (typeof tokens?.id_token !== 'string' || !tokens.id_token) {
+      throw new UnauthorizedException('Authorization code was rejected');
+    }
+
+    return tokens.id_token;
+  }
+
+  private async verifyIdToken(
+    provider: OidcProviderConfig,
+    discovery: OidcDiscovery,
+    idToken: string,
+    nonce: string,
+  ): Promise<OidcClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+
+    const response = await this.request(discovery.jwks_uri);
+    const jwks = await this.readJson<{ keys?: unknown } | null>(
+      response,
+      'Invalid ID token',
+    );
+    if (!Array.isArray(jwks?.keys)) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+
+    const jwk = (jwks.keys as (crypto.JsonWebKey | null)[]).find(
+      (key) => key?.kid === decoded.header.kid,
+    );
+    if (!jwk) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+
+    let claims: OidcClaims;
+    try {
+      claims = jwt.verify(
+        idToken,
+        crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+        {
+          algorithms: ['RS256', 'ES256'],
+          issuer: discovery.issuer,
+          audience: provider.clientId,
+        },
+      ) as OidcClaims;
+    } catch {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+
+    if (!claims.sub || claims.nonce !== nonce) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+
+    return claims;
+  }
+
+  private async discover(provider: OidcProviderConfig): Promise<OidcDiscovery> {
+    const cached = this.discoveryCache.get(provider.issuer);
+    if (cached) return cached;
+
+    const issuer = provider.issuer.replace(/\/$/, '');
+    const response = await this.request(
+      `${issuer}/.well-known/openid-configuration`,
+    );
+    if (!response.ok) {
+      throw new BadGatewayException('Identity provider is unavailable');
+    }
+
+    const discovery = (await response.json()) as OidcDiscovery;
+    this.discoveryCache.set(provider.issuer, discovery);
+    return discovery;
+  }
+
+  // Error statuses and unparseable bodies are both treated as a rejection
+  private async readJson<T>(response: Response, message: string): Promise<T> {
+    if (!response.ok) {
+      throw new UnauthorizedException(message);
+    }
+
+    try {
+      return (await response.json()) as T;
+    } catch {
+      throw new UnauthorizedException(message);
+    }
+  }
+
+  private async request(url: string, init?: RequestInit): Promise<Response> {
+    try {
+      return await fetch(url, init);
+    } catch {
+      throw new BadGatewayException('Identity provider is unavailable');
+    }
+  }
+
+  private getProvider(providerName: string): OidcProviderConfig {
+    const provider = oidcConfig.PROVIDERS[providerName];
+
+    if (!provider || !provider.issuer || !provider.clientId) {
+      throw new NotFoundException('Unknown identity provider');
+    }
+
+    return provider;
+  }
+
+  private isEmailVerified(claims: OidcClaims): boolean {
+    return claims.email_verified === true || claims.email_verified === 'true';
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  private toResponseDto(identity: UserIdentities): IdentityResponseDto {
+    return {
+      id: identity.id,
+      provider: identity.provider,
+      email: identity.email,
+      createdAt: identity.createdAt,
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { Users } from '../users/users.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+@Table({
+  tableName: 'password_reset_tokens',
+  timestamps: true,
+  indexes: [
+    { fields: ['userId'] },
+    { fields: ['tokenHash'], unique: true },
+    { fields: ['expiresAt'] },
+  ],
+})
+export class PasswordResetTokens extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  userId: string;
+
+  // SHA-256 of the token sent by email; the raw token is never stored
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(64),
+  })
+  tokenHash: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.DATE,
+  })
+  expiresAt: Date;
+
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  usedAt: Date;
+
+  // Relationships
+  @BelongsTo(() => Users, { onDelete: 'CASCADE' })
+  user: Users;
+}
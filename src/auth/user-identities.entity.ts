@@ -0,0 +1,58 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { Users } from '../users/users.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+@Table({
+  tableName: 'user_identities',
+  timestamps: true,
+  indexes: [
+    { fields: ['userId'] },
+    { fields: ['provider', 'subject'], unique: true },
+  ],
+})
+export class UserIdentities extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  userId: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(50),
+  })
+  provider: string;
+
+  // The provider's stable "sub" claim for this account
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(255),
+  })
+  subject: string;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.STRING(255),
+  })
+  email: string;
+
+  // Relationships
+  @BelongsTo(() => Users, { onDelete: 'CASCADE' })
+  user: Users;
+}
@@ -0,0 +1,105 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  HttpCode,
+} from '@nestjs/common';
+import { ClassesService } from './classes.service';
+import { CreateClassDto } from './dto/create-class.dto';
+import { UpdateClassDto } from './dto/update-class.dto';
+import { JwtGuard } from '../common/guards/jwt.guard';
+
+@Controller('schools/:schoolId/classes')
+@UseGuards(JwtGuard)
+export class ClassesController {
+  constructor(private readonly classesService: ClassesService) {}
+
+  @Post()
+  @HttpCode(201)
+  async create(
+    @Param('schoolId') schoolId: string,
+    @Body() createClassDto: CreateClassDto,
+    @Request() req: any,
+  ) {
+    return this.classesService.create(schoolId, createClassDto, req.user.sub);
+  }
+
+  @Get()
+  async findAll(
+    @Param('schoolId') schoolId: string,
+    @Request() req: any,
+    @Query('academicYear') academicYear?: string,
+    @Query('includeArchived') includeArchived?: string,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 10,
+  ) {
+    return this.classesService.findAll(
+      schoolId,
+      req.user.sub,
+      { academicYear, includeArchived: includeArchived === 'true' },
+      page,
+      limit,
+    );
+  }
+
+  @Get(':id')
+  async findOne(
+    @Param('schoolId') schoolId: string,
+    @Param('id') id: string,
+    @Request() req: any,
+  ) {
+    return this.classesService.findById(schoolId, id, req.user.sub);
+  }
+
+  @Put(':id')
+  async update(
+    @Param('schoolId') schoolId: string,
+    @Param('id') id: string,
+    @Body() updateClassDto: UpdateClassDto,
+    @Request() req: any,
+  ) {
+    return this.classesService.update(
+      schoolId,
+      id,
+      updateClassDto,
+      req.user.sub,
+    );
+  }
+
+  @Post(':id/archive')
+  @HttpCode(200)
+  async archive(
+    @Param('schoolId') schoolId: string,
+    @Param('id') id: string,
+    @Request() req: any,
+  ) {
+    return this.classesService.archive(schoolId, id, req.user.sub);
+  }
+
+  @Post(':id/restore')
+  @HttpCode(200)
+  async restore(
+    @Param('schoolId') schoolId: string,
+    @Param('id') id: string,
+    @Request() req: any,
+  ) {
+    return this.classesService.restore(schoolId, id, req.user.sub);
+  }
+
+  @Delete(':id')
+  async delete(
+    @Param('schoolId') schoolId: string,
+    @Param('id') id: string,
+    @Request() req: any,
+  ) {
+    await this.classesService.delete(schoolId, id, req.user.sub);
+    return { message: 'Class deleted successfully' };
+  }
+}
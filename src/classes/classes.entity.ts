@@ -0,0 +1,95 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  ForeignKey,
+  BelongsTo,
+  HasMany,
+} from 'sequelize-typescript';
+import { Users } from '../users/users.entity';
+import { Schools } from '../schools/schools.entity';
+import { Enrollments } from './enrollments.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+@Table({
+  tableName: 'classes',
+  timestamps: true,
+  indexes: [
+    { fields: ['schoolId', 'academicYear', 'name'], unique: true },
+    { fields: ['homeroomTeacherId'] },
+    { fields: ['archivedAt'] },
+  ],
+})
+export class Classes extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Schools)
+  @Column({
+    type: DataType.UUID,
+  })
+  schoolId: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(100),
+  })
+  name: string;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.STRING(20),
+  })
+  grade: string;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.STRING(20),
+  })
+  section: string;
+
+  // e.g. "2025-2026"
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(20),
+  })
+  academicYear: string;
+
+  @AllowNull(true)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  homeroomTeacherId: string | null;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.INTEGER,
+  })
+  capacity: number | null;
+
+  // Archived classes are kept for history but no longer counted
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  archivedAt: Date | null;
+
+  // Relationships
+  @BelongsTo(() => Schools, { onDelete: 'CASCADE' })
+  school: Schools;
+
+  @BelongsTo(() => Users, { onDelete: 'SET NULL' })
+  homeroomTeacher: Users;
+
+  @HasMany(() => Enrollments)
+  enrollments: Enrollments[];
+}
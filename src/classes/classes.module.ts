@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../db/database.module';
+import { SchoolsModule } from '../schools/schools.module';
+import { ClassesService } from './classes.service';
+import { EnrollmentsService } from './enrollments.service';
+import { ClassesController } from './classes.controller';
+import { EnrollmentsController } from './enrollments.controller';
+import { classesProviders } from './classes.provider';
+
+@Module({
+  imports: [DatabaseModule, SchoolsModule],
+  providers: [ClassesService, EnrollmentsService, ...classesProviders],
+  controllers: [ClassesController, EnrollmentsController],
+  exports: [ClassesService, EnrollmentsService],
+})
+export class ClassesModule {}
@@ -0,0 +1,18 @@
+import { Classes } from './classes.entity';
+import { Enrollments } from './enrollments.entity';
+import { Schools } from '../schools/schools.entity';
+
+export const classesProviders = [
+  {
+    provide: 'CLASSES_REPOSITORY',
+    useValue: Classes,
+  },
+  {
+    provide: 'ENROLLMENTS_REPOSITORY',
+    useValue: Enrollments,
+  },
+  {
+    provide: 'SCHOOLS_REPOSITORY',
+    useValue: Schools,
+  },
+];
@@ -0,0 +1,294 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Transaction, UniqueConstraintError } from 'sequelize';
+import { Classes } from './classes.entity';
+import { Enrollments } from './enrollments.entity';
+import { Schools } from '../schools/schools.entity';
+import { SchoolMembersService } from '../schools/school-members.service';
+import { CONSTANTS } from '../common/utils/constants';
+import { CreateClassDto } from './dto/create-class.dto';
+import { UpdateClassDto } from './dto/update-class.dto';
+import { ClassResponseDto } from './dto/class-response.dto';
+
+@Injectable()
+export class ClassesService {
+  constructor(
+    @Inject('CLASSES_REPOSITORY')
+    private readonly classesRepository: typeof Classes,
+    @Inject('ENROLLMENTS_REPOSITORY')
+    private readonly enrollmentsRepository: typeof Enrollments,
+    @Inject('SCHOOLS_REPOSITORY')
+    private readonly schoolsRepository: typeof Schools,
+    private readonly schoolMembersService: SchoolMembersService,
+  ) {}
+
+  async findAll(
+    schoolId: string,
+    userId: string,
+    filters: { academicYear?: string; includeArchived?: boolean },
+    page: number = 1,
+    limit: number = 10,
+  ): Promise<any> {
+    await this.assertCanRead(schoolId, userId);
+    const offset = (page - 1) * limit;
+
+    const where: any = { schoolId };
+    if (filters.academicYear) {
+      where.academicYear = filters.academicYear;
+    }
+    if (!filters.includeArchived) {
+      where.archivedAt = null;
+    }
+
+    const { count, rows } = await this.classesRepository.findAndCountAll({
+      where,
+      offset,
+      limit,
+      order: [
+        ['academicYear', 'DESC'],
+        ['name', 'ASC'],
+      ],
+    });
+
+    return {
+      data: rows.map((schoolClass) => this.toResponseDto(schoolClass)),
+      total: count,
+      page,
+      limit,
+      pages: Math.ceil(count / limit),
+    };
+  }
+
+  async findById(
+    schoolId: string,
+    id: string,
+    userId: string,
+  ): Promise<ClassResponseDto> {
+    await this.assertCanRead(schoolId, userId);
+
+    return this.toResponseDto(await this.findClass(schoolId, id));
+  }
+
+  async create(
+    schoolId: string,
+    createClassDto: CreateClassDto,
+    userId: string,
+  ): Promise<ClassResponseDto> {
+    const school = await this.assertCanManage(schoolId, userId);
+
+    if (createClassDto.homeroomTeacherId) {
+      await this.assertTeacher(school, createClassDto.homeroomTeacherId);
+    }
+
+    const schoolClass = await this.withCounterSync(
+      schoolId,
+      async (transaction) =>
+        this.classesRepository.create(
+          { ...createClassDto, schoolId },
+          { transaction },
+        ),
+    );
+
+    return this.toResponseDto(schoolClass);
+  }
+
+  async update(
+    schoolId: string,
+    id: string,
+    updateClassDto: UpdateClassDto,
+    userId: string,
+  ): Promise<ClassResponseDto> {
+    const school = await this.assertCanManage(schoolId, userId);
+    const schoolClass = await this.findClass(schoolId, id);
+
+    if (updateClassDto.homeroomTeacherId) {
+      await this.assertTeacher(school, updateClassDto.homeroomTeacherId);
+    }
+
+    if (updateClassDto.capacity) {
+      const enrolled = await this.enrollmentsRepository.count({
+        where: { classId: id, status: CONSTANTS.ENROLLMENT_STATUS.ACTIVE },
+      });
+
+      if (enrolled > updateClassDto.capacity) {
+        throw new BadRequestException(
+          `Capacity cannot be lower than the ${enrolled} students enrolled`,
+        );
+      }
+    }
+
+    try {
+      await schoolClass.update(updateClassDto);
+    } catch (error) {
+      this.rethrowDuplicate(error);
+    }
+
+    return this.toResponseDto(schoolClass);
+  }
+
+  async archive(
+    schoolId: string,
+    id: string,
+    userId: string,
+  ): Promise<ClassResponseDto> {
+    await this.assertCanManage(schoolId, userId);
+    const schoolClass = await this.findClass(schoolId, id);
+
+    if (schoolClass.archivedAt) {
+      throw new BadRequestException('Class is already archived');
+    }
+
+    await this.withCounterSync(schoolId, (transaction) =>
+      schoolClass.update({ archivedAt: new Date() }, { transaction }),
+    );
+
+    return this.toResponseDto(schoolClass);
+  }
+
+  async restore(
+    schoolId: string,
+    id: string,
+    userId: string,
+  ): Promise<ClassResponseDto> {
+    await this.assertCanManage(schoolId, userId);
+    const schoolClass = await this.findClass(schoolId, id);
+
+    if (!schoolClass.archivedAt) {
+      throw new BadRequestException('Class is not archived');
+    }
+
+    await this.withCounterSync(schoolId, (transaction) =>
+      schoolClass.update({ archivedAt: null }, { transaction }),
+    );
+
+    return this.toResponseDto(schoolClass);
+  }
+
+  async delete(schoolId: string, id: string, userId: string): Promise<void> {
+    await this.assertCanManage(schoolId, userId);
+    const schoolClass = await this.findClass(schoolId, id);
+
+    // Enrollment history must survive, so classes with students are archived
+    const enrollments = await this.enrollmentsRepository.count({
+      where: { classId: id },
+    });
+    if (enrollments > 0) {
+      throw new BadRequestException(
+        'Class has enrollment history and can only be archived',
+      );
+    }
+
+    await this.withCounterSync(schoolId, (transaction) =>
+      schoolClass.destroy({ transaction }),
+    );
+  }
+
+  /**
+   * Runs a class mutation and recomputes Schools.totalClasses in the same
+   * transaction. The school row is locked so concurrent changes serialize.
+   */
+  private async withCounterSync<T>(
+    schoolId: string,
+    mutation: (transaction: Transaction) => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await this.classesRepository.sequelize!.transaction(
+        async (transaction) => {
+          const school = await this.schoolsRepository.findByPk(schoolId, {
+            transaction,
+            lock: transaction.LOCK.UPDATE,
+          });
+
+          if (!school) {
+            throw new NotFoundException('School not found');
+          }
+
+          const result = await mutation(transaction);
+
+          const totalClasses = await this.classesRepository.count({
+            where: { schoolId, archivedAt: null },
+            transaction,
+          });
+          await school.update({ totalClasses }, { transaction });
+
+          return result;
+        },
+      );
+    } catch (error) {
+      this.rethrowDuplicate(error);
+    }
+  }
+
+  private rethrowDuplicate(error: unknown): never {
+    if (error instanceof UniqueConstraintError) {
+      throw new ConflictException(
+        'A class with this name already exists for this academic year',
+      );
+    }
+    throw error;
+  }
+
+  private async assertCanRead(schoolId: string, userId: string) {
+    return this.schoolMembersService.assertRole(
+      schoolId,
+      userId,
+      Object.values(CONSTANTS.SCHOOL_ROLES),
+      CONSTANTS.PERMISSIONS.SCHOOLS_READ,
+    );
+  }
+
+  private async assertCanManage(schoolId: string, userId: string) {
+    return this.schoolMembersService.assertRole(
+      schoolId,
+      userId,
+      [CONSTANTS.SCHOOL_ROLES.ADMIN, CONSTANTS.SCHOOL_ROLES.STAFF],
+      CONSTANTS.PERMISSIONS.SCHOOLS_UPDATE,
+    );
+  }
+
+  private async assertTeacher(school: Schools, userId: string): Promise<void> {
+    const role = await this.schoolMembersService.getRole(school, userId);
+
+    if (
+      role !== CONSTANTS.SCHOOL_ROLES.TEACHER &&
+      role !== CONSTANTS.SCHOOL_ROLES.ADMIN
+    ) {
+      throw new BadRequestException(
+        'Homeroom teacher must be a teacher of this school',
+      );
+    }
+  }
+
+  private async findClass(schoolId: string, id: string): Promise<Classes> {
+    const schoolClass = await this.classesRepository.findOne({
+      where: { id, schoolId },
+    });
+
+    if (!schoolClass) {
+      throw new NotFoundException('Class not found');
+    }
+
+    return schoolClass;
+  }
+
+  private toResponseDto(schoolClass: Classes): ClassResponseDto {
+    return {
+      id: schoolClass.id,
+      schoolId: schoolClass.schoolId,
+      name: schoolClass.name,
+      grade: schoolClass.grade,
+      section: schoolClass.section,
+      academicYear: schoolClass.academicYear,
+      homeroomTeacherId: schoolClass.homeroomTeacherId,
+      capacity: schoolClass.capacity,
+      archivedAt: schoolClass.archivedAt,
+      createdAt: schoolClass.createdAt,
+      updatedAt: schoolClass.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,13 @@
+export class ClassResponseDto {
+  id: string;
+  schoolId: string;
+  name: string;
+  grade: string;
+  section: string;
+  academicYear: string;
+  homeroomTeacherId: string | null;
+  capacity: number | null;
+  archivedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
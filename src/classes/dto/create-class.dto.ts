@@ -0,0 +1,41 @@
+import {
+  IsString,
+  IsOptional,
+  IsUUID,
+  IsInt,
+  Min,
+  MinLength,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+
+export class CreateClassDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(20)
+  grade?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(20)
+  section?: string;
+
+  @Matches(/^\d{4}-\d{4}$/, {
+    message: 'Academic year must look like 2025-2026',
+  })
+  academicYear: string;
+
+  @IsUUID()
+  @IsOptional()
+  homeroomTeacherId?: string;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  capacity?: number;
+}
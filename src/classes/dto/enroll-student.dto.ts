@@ -0,0 +1,17 @@
+import { IsUUID, IsInt, Min, IsOptional, IsDateString } from 'class-validator';
+
+export class EnrollStudentDto {
+  @IsUUID()
+  studentId: string;
+
+  // Defaults to the next free roll number in the class
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  rollNumber?: number;
+
+  // Defaults to today
+  @IsDateString()
+  @IsOptional()
+  enrolledAt?: string;
+}
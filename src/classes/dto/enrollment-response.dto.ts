@@ -0,0 +1,20 @@
+export class EnrollmentResponseDto {
+  id: string;
+  schoolId: string;
+  classId: string;
+  studentId: string;
+  status: string;
+  rollNumber: number;
+  enrolledAt: string;
+  exitedAt: string | null;
+  exitReason: string | null;
+  transferredFromId: string | null;
+  transferredToId: string | null;
+  student: {
+    id: string;
+    email: string;
+    name: string;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
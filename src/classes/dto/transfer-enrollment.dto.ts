@@ -0,0 +1,30 @@
+import {
+  IsUUID,
+  IsInt,
+  Min,
+  IsOptional,
+  IsDateString,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class TransferEnrollmentDto {
+  @IsUUID()
+  classId: string;
+
+  // Defaults to the next free roll number in the target class
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  rollNumber?: number;
+
+  // Defaults to today
+  @IsDateString()
+  @IsOptional()
+  transferredAt?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,44 @@
+import {
+  IsString,
+  IsOptional,
+  IsUUID,
+  IsInt,
+  Min,
+  MinLength,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+
+export class UpdateClassDto {
+  @IsString()
+  @IsOptional()
+  @MinLength(1)
+  @MaxLength(100)
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(20)
+  grade?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(20)
+  section?: string;
+
+  @Matches(/^\d{4}-\d{4}$/, {
+    message: 'Academic year must look like 2025-2026',
+  })
+  @IsOptional()
+  academicYear?: string;
+
+  // null clears the homeroom teacher
+  @IsUUID()
+  @IsOptional()
+  homeroomTeacherId?: string | null;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  capacity?: number | null;
+}
@@ -0,0 +1,13 @@
+import { IsString, IsOptional, IsDateString, MaxLength } from 'class-validator';
+
+export class WithdrawEnrollmentDto {
+  // Defaults to today
+  @IsDateString()
+  @IsOptional()
+  exitedAt?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string;
+}
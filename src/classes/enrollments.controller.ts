@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  HttpCode,
+} from '@nestjs/common';
+import { EnrollmentsService } from './enrollments.service';
+import { EnrollStudentDto } from './dto/enroll-student.dto';
+import { WithdrawEnrollmentDto } from './dto/withdraw-enrollment.dto';
+import { TransferEnrollmentDto } from './dto/transfer-enrollment.dto';
+import { JwtGuard } from '../common/guards/jwt.guard';
+
+@Controller('schools/:schoolId')
+@UseGuards(JwtGuard)
+export class EnrollmentsController {
+  constructor(private readonly enrollmentsService: EnrollmentsService) {}
+
+  @Get('classes/:classId/students')
+  async findRoster(
+    @Param('schoolId') schoolId: string,
+    @Param('classId') classId: string,
+    @Request() req: any,
+    @Query('status') status?: string,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 10,
+  ) {
+    return this.enrollmentsService.findRoster(
+      schoolId,
+      classId,
+      req.user.sub,
+      status,
+      page,
+      limit,
+    );
+  }
+
+  @Post('classes/:classId/students')
+  @HttpCode(201)
+  async enroll(
+    @Param('schoolId') schoolId: string,
+    @Param('classId') classId: string,
+    @Body() enrollStudentDto: EnrollStudentDto,
+    @Request() req: any,
+  ) {
+    return this.enrollmentsService.enroll(
+      schoolId,
+      classId,
+      enrollStudentDto,
+      req.user.sub,
+    );
+  }
+
+  @Post('enrollments/:id/withdraw')
+  @HttpCode(200)
+  async withdraw(
+    @Param('schoolId') schoolId: string,
+    @Param('id') id: string,
+    @Body() withdrawEnrollmentDto: WithdrawEnrollmentDto,
+    @Request() req: any,
+  ) {
+    return this.enrollmentsService.withdraw(
+      schoolId,
+      id,
+      withdrawEnrollmentDto,
+      req.user.sub,
+    );
+  }
+
+  @Post('enrollments/:id/transfer')
+  @HttpCode(200)
+  async transfer(
+    @Param('schoolId') schoolId: string,
+    @Param('id') id: string,
+    @Body() transferEnrollmentDto: TransferEnrollmentDto,
+    @Request() req: any,
+  ) {
+    return this.enrollmentsService.transfer(
+      schoolId,
+      id,
+      transferEnrollmentDto,
+      req.user.sub,
+    );
+  }
+
+  @Get('students/:studentId/enrollments')
+  async findStudentHistory(
+    @Param('schoolId') schoolId: string,
+    @Param('studentId') studentId: string,
+    @Request() req: any,
+  ) {
+    return this.enrollmentsService.findStudentHistory(
+      schoolId,
+      studentId,
+      req.user.sub,
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { Users } from '../users/users.entity';
+import { Schools } from '../schools/schools.entity';
+import { Classes } from './classes.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+@Table({
+  tableName: 'enrollments',
+  timestamps: true,
+  indexes: [
+    { fields: ['classId', 'status'] },
+    { fields: ['studentId'] },
+    // A student is actively enrolled in at most one class per school
+    {
+      fields: ['schoolId', 'studentId'],
+      unique: true,
+      where: { status: 'active' },
+    },
+    {
+      fields: ['classId', 'rollNumber'],
+      unique: true,
+      where: { status: 'active' },
+    },
+  ],
+})
+export class Enrollments extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Schools)
+  @Column({
+    type: DataType.UUID,
+  })
+  schoolId: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Classes)
+  @Column({
+    type: DataType.UUID,
+  })
+  classId: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  studentId: string;
+
+  // One of CONSTANTS.ENROLLMENT_STATUS
+  @AllowNull(false)
+  @Default('active')
+  @Column({
+    type: DataType.STRING(20),
+  })
+  status: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.INTEGER,
+  })
+  rollNumber: number;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.DATEONLY,
+  })
+  enrolledAt: string;
+
+  @Default(null)
+  @Column({
+    type: DataType.DATEONLY,
+  })
+  exitedAt: string | null;
+
+  @Default(null)
+  @Column({
+    type: DataType.STRING(500),
+  })
+  exitReason: string | null;
+
+  // Links the two halves of a transfer so history is never overwritten
+  @Default(null)
+  @Column({
+    type: DataType.UUID,
+  })
+  transferredFromId: string | null;
+
+  @Default(null)
+  @Column({
+    type: DataType.UUID,
+  })
+  transferredToId: string | null;
+
+  // Relationships
+  @BelongsTo(() => Schools, { onDelete: 'CASCADE' })
+  school: Schools;
+
+  @BelongsTo(() => Classes)
+  class: Classes;
+
+  @BelongsTo(() => Users, { onDelete: 'CASCADE' })
+  student: Users;
+}
@@ -0,0 +1,451 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Transaction, UniqueConstraintError } from 'sequelize';
+import { Enrollments } from './enrollments.entity';
+import { Classes } from './classes.entity';
+import { Schools } from '../schools/schools.entity';
+import { Users } from '../users/users.entity';
+import { SchoolMembersService } from '../schools/school-members.service';
+import { CONSTANTS } from '../common/utils/constants';
+import { EnrollStudentDto } from './dto/enroll-student.dto';
+import { WithdrawEnrollmentDto } from './dto/withdraw-enrollment.dto';
+import { TransferEnrollmentDto } from './dto/transfer-enrollment.dto';
+import { EnrollmentResponseDto } from './dto/enrollment-response.dto';
+
+@Injectable()
+export class EnrollmentsService {
+  constructor(
+    @Inject('ENROLLMENTS_REPOSITORY')
+    private readonly enrollmentsRepository: typeof Enrollments,
+    @Inject('CLASSES_REPOSITORY')
+    private readonly classesRepository: typeof Classes,
+    @Inject('SCHOOLS_REPOSITORY')
+    private readonly schoolsRepository: typeof Schools,
+    private readonly schoolMembersService: SchoolMembersService,
+  ) {}
+
+  async findRoster(
+    schoolId: string,
+    classId: string,
+    userId: string,
+    status: string = CONSTANTS.ENROLLMENT_STATUS.ACTIVE,
+    page: number = 1,
+    limit: number = 10,
+  ): Promise<any> {
+    await this.assertCanView(schoolId, userId);
+    await this.findClass(schoolId, classId);
+    const offset = (page - 1) * limit;
+
+    const { count, rows } = await this.enrollmentsRepository.findAndCountAll({
+      where: { classId, status },
+      include: [Users],
+      offset,
+      limit,
+      order: [
+        ['rollNumber', 'ASC'],
+        ['enrolledAt', 'ASC'],
+      ],
+    });
+
+    return {
+      data: rows.map((enrollment) => this.toResponseDto(enrollment)),
+      total: count,
+      page,
+      limit,
+      pages: Math.ceil(count / limit),
+    };
+  }
+
+  async findStudentHistory(
+    schoolId: string,
+    studentId: string,
+    userId: string,
+  ): Promise<EnrollmentResponseDto[]> {
+    // Students may always see their own history
+    if (studentId !== userId) {
+      await this.assertCanView(schoolId, userId);
+    }
+
+    const enrollments = await this.enrollmentsRepository.findAll({
+      where: { schoolId, studentId },
+      order: [
+        ['enrolledAt', 'ASC'],
+        ['createdAt', 'ASC'],
+      ],
+    });
+
+    return enrollments.map((enrollment) => this.toResponseDto(enrollment));
+  }
+
+  async enroll(
+    schoolId: string,
+    classId: string,
+    enrollStudentDto: EnrollStudentDto,
+    userId: string,
+  ): Promise<EnrollmentResponseDto> {
+    const school = await this.assertCanManage(schoolId, userId);
+    await this.assertStudent(school, enrollStudentDto.studentId);
+
+    const enrollment = await this.withStudentCountSync(
+      schoolId,
+      async (transaction) => {
+        const schoolClass = await this.lockClass(
+          schoolId,
+          classId,
+          transaction,
+        );
+
+        const current = await this.enrollmentsRepository.findOne({
+          where: {
+            schoolId,
+            studentId: enrollStudentDto.studentId,
+            status: CONSTANTS.ENROLLMENT_STATUS.ACTIVE,
+          },
+          transaction,
+        });
+
+        if (current) {
+          throw new ConflictException(
+            'Student is already enrolled in a class of this school. Transfer them instead',
+          );
+        }
+
+        return this.enrollmentsRepository.create(
+          {
+            schoolId,
+            classId: schoolClass.id,
+            studentId: enrollStudentDto.studentId,
+            status: CONSTANTS.ENROLLMENT_STATUS.ACTIVE,
+            rollNumber: await this.resolveRollNumber(
+              schoolClass,
+              enrollStudentDto.rollNumber,
+              transaction,
+            ),
+            enrolledAt: enrollStudentDto.enrolledAt || this.today(),
+          },
+          { transaction },
+        );
+      },
+    );
+
+    return this.toResponseDto(enrollment);
+  }
+
+  async withdraw(
+    schoolId: string,
+    enrollmentId: string,
+    withdrawEnrollmentDto: WithdrawEnrollmentDto,
+    userId: string,
+  ): Promise<EnrollmentResponseDto> {
+    await this.assertCanManage(schoolId, userId);
+
+    const enrollment = await this.withStudentCountSync(
+      schoolId,
+      async (transaction) => {
+        const current = await this.findActiveEnrollment(
+          schoolId,
+          enrollmentId,
+          transaction,
+        );
+
+        return current.update(
+          {
+            status: CONSTANTS.ENROLLMENT_STATUS.WITHDRAWN,
+            exitedAt: withdrawEnrollmentDto.exitedAt || this.today(),
+            exitReason: withdrawEnrollmentDto.reason || null,
+          },
+          { transaction },
+        );
+      },
+    );
+
+    return this.toResponseDto(enrollment);
+  }
+
+  async transfer(
+    schoolId: string,
+    enrollmentId: string,
+    transferEnrollmentDto: TransferEnrollmentDto,
+    userId: string,
+  ): Promise<EnrollmentResponseDto> {
+    await this.assertCanManage(schoolId, userId);
+    const transferredAt = transferEnrollmentDto.transferredAt || this.today();
+
+    const next = await this.withStudentCountSync(
+      schoolId,
+      async (transaction) => {
+        const enrollment = await this.findActiveEnrollment(
+          schoolId,
+          enrollmentId,
+          transaction,
+        );
+
+        if (enrollment.classId === transferEnrollmentDto.classId) {
+          throw new BadRequestException('Student is already in this class');
+        }
+
+        const targetClass = await this.lockClass(
+          schoolId,
+          transferEnrollmentDto.classId,
+          transaction,
+        );
+
+        // Close the current enrollment first so it no longer holds a seat
+        // or the one-active-enrollment-per-school slot
+        await enrollment.update(
+          {
+            status: CONSTANTS.ENROLLMENT_STATUS.TRANSFERRED,
+            exitedAt: transferredAt,
+            exitReason: transferEnrollmentDto.reason || null,
+          },
+          { transaction },
+        );
+
+        const created = await this.enrollmentsRepository.create(
+          {
+            schoolId,
+            classId: targetClass.id,
+            studentId: enrollment.studentId,
+            status: CONSTANTS.ENROLLMENT_STATUS.ACTIVE,
+            rollNumber: await this.resolveRollNumber(
+              targetClass,
+              transferEnrollmentDto.rollNumber,
+              transaction,
+            ),
+            enrolledAt: transferredAt,
+            transferredFromId: enrollment.id,
+          },
+          { transaction },
+        );
+
+        await enrollment.update(
+          { transferredToId: created.id },
+          { transaction },
+        );
+
+        return created;
+      },
+    );
+
+    return this.toResponseDto(next);
+  }
+
+  /**
+   * Recomputes Schools.totalStudents from active enrollments. Callers that
+   * write enrollments directly must run this in the same transaction.
+   */
+  async syncStudentCount(
+    schoolId: string,
+    transaction: Transaction,
+  ): Promise<void> {
+    const totalStudents = await this.enrollmentsRepository.count({
+      where: { schoolId, status: CONSTANTS.ENROLLMENT_STATUS.ACTIVE },
+      transaction,
+    });
+
+    await this.schoolsRepository.update(
+      { totalStudents },
+      { where: { id: schoolId }, transaction },
+    );
+  }
+
+  /**
+   * Runs an enrollment mutation and recomputes Schools.totalStudents in the
+   * same transaction. The school row is locked so concurrent changes
+   * serialize.
+   */
+  private async withStudentCountSync<T>(
+    schoolId: string,
+    mutation: (transaction: Transaction) => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await this.enrollmentsRepository.sequelize!.transaction(
+        async (transaction) => {
+          const school = await this.schoolsRepository.findByPk(schoolId, {
+            transaction,
+            lock: transaction.LOCK.UPDATE,
+          });
+
+          if (!school) {
+            throw new NotFoundException('School not found');
+          }
+
+          const result = await mutation(transaction);
+
+          await this.syncStudentCount(schoolId, transaction);
+
+          return result;
+        },
+      );
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        throw new ConflictException(
+          'rollNumber' in error.fields
+            ? 'Roll number is already taken in this class'
+            : 'Student is already enrolled in a class of this school',
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Locks the class row and checks it can take one more student. The lock
+   * holds until the transaction ends, so the seat stays free for the caller.
+   */
+  async lockClass(
+    schoolId: string,
+    classId: string,
+    transaction: Transaction,
+  ): Promise<Classes> {
+    const schoolClass = await this.classesRepository.findOne({
+      where: { id: classId, schoolId },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    if (!schoolClass) {
+      throw new NotFoundException('Class not found');
+    }
+
+    if (schoolClass.archivedAt) {
+      throw new BadRequestException(
+        'Cannot enroll students in an archived class',
+      );
+    }
+
+    if (schoolClass.capacity) {
+      const enrolled = await this.enrollmentsRepository.count({
+        where: { classId, status: CONSTANTS.ENROLLMENT_STATUS.ACTIVE },
+        transaction,
+      });
+
+      if (enrolled >= schoolClass.capacity) {
+        throw new ConflictException('Class is at full capacity');
+      }
+    }
+
+    return schoolClass;
+  }
+
+  private async resolveRollNumber(
+    schoolClass: Classes,
+    requested: number | undefined,
+    transaction: Transaction,
+  ): Promise<number> {
+    if (requested) {
+      return requested;
+    }
+
+    const highest: number | null = await this.enrollmentsRepository.max(
+      'rollNumber',
+      {
+        where: {
+          classId: schoolClass.id,
+          status: CONSTANTS.ENROLLMENT_STATUS.ACTIVE,
+        },
+        transaction,
+      },
+    );
+
+    return (highest || 0) + 1;
+  }
+
+  private async assertCanView(schoolId: string, userId: string) {
+    return this.schoolMembersService.assertRole(
+      schoolId,
+      userId,
+      [
+        CONSTANTS.SCHOOL_ROLES.ADMIN,
+        CONSTANTS.SCHOOL_ROLES.STAFF,
+        CONSTANTS.SCHOOL_ROLES.TEACHER,
+      ],
+      CONSTANTS.PERMISSIONS.SCHOOLS_READ,
+    );
+  }
+
+  private async assertCanManage(schoolId: string, userId: string) {
+    return this.schoolMembersService.assertRole(
+      schoolId,
+      userId,
+      [CONSTANTS.SCHOOL_ROLES.ADMIN, CONSTANTS.SCHOOL_ROLES.STAFF],
+      CONSTANTS.PERMISSIONS.SCHOOLS_UPDATE,
+    );
+  }
+
+  private async assertStudent(school: Schools, userId: string): Promise<void> {
+    const role = await this.schoolMembersService.getRole(school, userId);
+
+    if (role !== CONSTANTS.SCHOOL_ROLES.STUDENT) {
+      throw new BadRequestException('User must be a student of this school');
+    }
+  }
+
+  private async findClass(schoolId: string, classId: string): Promise<Classes> {
+    const schoolClass = await this.classesRepository.findOne({
+      where: { id: classId, schoolId },
+    });
+
+    if (!schoolClass) {
+      throw new NotFoundException('Class not found');
+    }
+
+    return schoolClass;
+  }
+
+  private async findActiveEnrollment(
+    schoolId: string,
+    enrollmentId: string,
+    transaction: Transaction,
+  ): Promise<Enrollments> {
+    const enrollment = await this.enrollmentsRepository.findOne({
+      where: { id: enrollmentId, schoolId },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    if (!enrollment) {
+      throw new NotFoundException('Enrollment not found');
+    }
+
+    if (enrollment.status !== CONSTANTS.ENROLLMENT_STATUS.ACTIVE) {
+      throw new BadRequestException('Enrollment is no longer active');
+    }
+
+    return enrollment;
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  private toResponseDto(enrollment: Enrollments): EnrollmentResponseDto {
+    return {
+      id: enrollment.id,
+      schoolId: enrollment.schoolId,
+      classId: enrollment.classId,
+      studentId: enrollment.studentId,
+      status: enrollment.status,
+      rollNumber: enrollment.rollNumber,
+      enrolledAt: enrollment.enrolledAt,
+      exitedAt: enrollment.exitedAt,
+      exitReason: enrollment.exitReason,
+      transferredFromId: enrollment.transferredFromId,
+      transferredToId: enrollment.transferredToId,
+      student: enrollment.student
+        ? {
+            id: enrollment.student.id,
+            email: enrollment.student.email,
+            name: enrollment.student.name,
+          }
+        : null,
+      createdAt: enrollment.createdAt,
+      updatedAt: enrollment.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { SetMetadata, UseInterceptors, applyDecorators } from '@nestjs/common';
+import { ModelCtor } from 'sequelize-typescript';
+import { AuditInterceptor } from '../../audit/audit.interceptor';
+
+export interface AuditOptions {
+  action: string;
+  targetType: string;
+  // Row loaded before and after the handler to record a field diff
+  model?: ModelCtor;
+  // Route param holding the target id. Defaults to "id"; routes without
+  // it (creates) take the id from the response
+  idParam?: string;
+  // Route params naming the row's columns, for rows not addressed by id
+  // such as a member at schools/:schoolId/members/:userId
+  lookup?: string[];
+}
+
+/**
+ * Records a successful call to the route in the audit log.
+ */
+export const Audit = (
+  action: string,
+  targetType: string,
+  options: Pick<AuditOptions, 'model' | 'idParam' | 'lookup'> = {},
+) =>
+  applyDecorators(
+    SetMetadata('audit', { action, targetType, ...options }),
+    UseInterceptors(AuditInterceptor),
+  );
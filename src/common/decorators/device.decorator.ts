@@ -1,3 +1,14 @@
-import { SetMetadata } from '@nestjs/common';
+import { SetMetadata, UseGuards, applyDecorators } from '@nestjs/common';
+import { JwtGuard } from '../guards/jwt.guard';
+import { DeviceGuard } from '../guards/device.guard';
 
-export const Device = () => SetMetadata('requireDevice', true);
+/**
+ * Restricts the route to sessions started from a registered device that
+ * still presents its fingerprint. Authenticates the request too, so it
+ * replaces @UseGuards(JwtGuard). The module needs DevicesModule imported.
+ */
+export const Device = () =>
+  applyDecorators(
+    SetMetadata('requireDevice', true),
+    UseGuards(JwtGuard, DeviceGuard),
+  );
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const Permissions = (...permissions: string[]) =>
+  SetMetadata('permissions', permissions);
+
+/**
+ * Names the route param holding the school id, so school-scoped role
+ * assignments are honoured. Defaults to "schoolId".
+ */
+export const SchoolScope = (param: string) =>
+  SetMetadata('schoolScopeParam', param);
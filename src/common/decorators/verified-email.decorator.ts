@@ -0,0 +1,4 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const RequireVerifiedEmail = () =>
+  SetMetadata('requireVerifiedEmail', true);
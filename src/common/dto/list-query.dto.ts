@@ -0,0 +1,81 @@
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { CONSTANTS } from '../utils/constants';
+
+/**
+ * Reads "true"/"false" query strings as booleans. Implicit conversion would
+ * turn any non-empty string, including "false", into true.
+ */
+export const ToBoolean = () =>
+  Transform(({ obj, key }: { obj: Record<string, unknown>; key: string }) => {
+    const value = obj[key];
+    if (value === 'true' || value === true) return true;
+    if (value === 'false' || value === false) return false;
+    return value;
+  });
+
+/**
+ * Query shared by list endpoints: pagination, text search, common filters
+ * and sorting. Resources extend it with their own filters and decide which
+ * fields `sort` may reference.
+ */
+export class ListQueryDto {
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page: number = CONSTANTS.PAGINATION.DEFAULT_PAGE;
+
+  @IsInt()
+  @Min(1)
+  @Max(CONSTANTS.PAGINATION.MAX_LIMIT)
+  @IsOptional()
+  limit: number = CONSTANTS.PAGINATION.DEFAULT_LIMIT;
+
+  // Case-insensitive match on name, email and phone
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  search?: string;
+
+  @ToBoolean()
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  @IsDateString()
+  @IsOptional()
+  createdFrom?: string;
+
+  @IsDateString()
+  @IsOptional()
+  createdTo?: string;
+
+  // Comma separated fields, "-" prefix for descending, e.g. "-createdAt,name"
+  @Matches(/^-?\w+(,-?\w+)*$/, {
+    message: 'Sort must be a comma separated list of fields',
+  })
+  @IsOptional()
+  sort?: string;
+
+  // "cursor" switches to keyset pagination without totals. Passing a
+  // cursor implies it.
+  @IsIn(['offset', 'cursor'])
+  @IsOptional()
+  pagination?: string;
+
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  cursor?: string;
+}
@@ -26,6 +26,8 @@ export class AllExceptionsFilter implements ExceptionFilter {
 
       if (typeof exceptionResponse === 'object') {
         message = (exceptionResponse as any).message || message;
+        // Per-item details, e.g. the row report of a rejected import
+        errors = (exceptionResponse as any).errors || errors;
       } else {
         message = exceptionResponse as string;
       }
@@ -5,12 +5,17 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { DevicesService } from '../../devices/devices.service';
+import { ClientContextUtil } from '../utils/client-context.util';
 
 @Injectable()
 export class DeviceGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private devicesService: DevicesService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const requireDevice = this.reflector.get<boolean>(
       'requireDevice',
       context.getHandler(),
@@ -23,10 +28,20 @@ export class DeviceGuard implements CanActivate {
     const request = context.switchToHttp().getRequest();
     const user = request.user;
 
-    // Device validation will be implemented in devices module
-    // For now, just check if user exists
-    if (!user || !user.id) {
-      throw new ForbiddenException('Device validation failed');
+    // Sessions started without a fingerprint carry no device claim
+    if (!user || !user.sub || !user.did) {
+      throw new ForbiddenException('A registered device is required');
+    }
+
+    const { deviceFingerprint } = ClientContextUtil.fromRequest(request);
+    const registered = await this.devicesService.isRegistered(
+      user.sub,
+      user.did,
+      deviceFingerprint,
+    );
+
+    if (!registered) {
+      throw new ForbiddenException('Device is not registered');
     }
 
     return true;
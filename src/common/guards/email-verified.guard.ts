@@ -0,0 +1,36 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { authConfig } from '../../config/auth.config';
+
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requireVerifiedEmail = this.reflector.get<boolean>(
+      'requireVerifiedEmail',
+      context.getHandler(),
+    );
+
+    if (
+      !requireVerifiedEmail ||
+      authConfig.EMAIL_VERIFICATION_POLICY === 'off'
+    ) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
+
+    if (!user || !user.emailVerified) {
+      throw new ForbiddenException('Email address must be verified');
+    }
+
+    return true;
+  }
+}
@@ -3,9 +3,11 @@ import {
   CanActivate,
   ExecutionContext,
   UnauthorizedException,
+  ForbiddenException,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { Reflector } from '@nestjs/core';
+import { AuthCookieUtil } from '../utils/auth-cookie.util';
 
 @Injectable()
 export class JwtGuard implements CanActivate {
@@ -31,8 +33,18 @@ export class JwtGuard implements CanActivate {
       throw new UnauthorizedException('No token provided');
     }
 
+    // Cookies are sent automatically by the browser, so cookie-based
+    // requests that change state must prove they can read the CSRF cookie
+    if (
+      token.source === 'cookie' &&
+      !AuthCookieUtil.isSafeMethod(request.method) &&
+      !AuthCookieUtil.hasValidCsrfToken(request)
+    ) {
+      throw new ForbiddenException('Invalid CSRF token');
+    }
+
     try {
-      const payload = this.jwtService.verify(token, {
+      const payload = this.jwtService.verify(token.value, {
         secret: process.env.JWT_SECRET,
       });
       request.user = payload;
@@ -42,17 +54,23 @@ export class JwtGuard implements CanActivate {
     }
   }
 
-  private extractToken(request: any): string | null {
+  private extractToken(
+    request: any,
+  ): { value: string; source: 'header' | 'cookie' } | null {
     const authHeader = request.headers.authorization;
-    if (!authHeader) {
-      return null;
+    if (authHeader) {
+      const [type, token] = authHeader.split(' ');
+      return type === 'Bearer' && token
+        ? { value: token, source: 'header' }
+        : null;
     }
 
-    const [type, token] = authHeader.split(' ');
-    if (type !== 'Bearer') {
-      return null;
+    // Fall back to the HttpOnly cookie in cookie auth mode
+    const cookieToken = AuthCookieUtil.getAccessToken(request);
+    if (cookieToken) {
+      return { value: cookieToken, source: 'cookie' };
     }
 
-    return token;
+    return null;
   }
 }
@@ -0,0 +1,51 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RolesService } from '../../roles/roles.service';
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private rolesService: RolesService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredPermissions = this.reflector.get<string[]>(
+      'permissions',
+      context.getHandler(),
+    );
+
+    if (!requiredPermissions || requiredPermissions.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
+
+    if (!user || !user.sub) {
+      throw new ForbiddenException('Insufficient permissions');
+    }
+
+    const scopeParam =
+      this.reflector.get<string>('schoolScopeParam', context.getHandler()) ||
+      'schoolId';
+    const schoolId = request.params?.[scopeParam];
+
+    const allowed = await this.rolesService.hasPermissions(
+      user.sub,
+      requiredPermissions,
+      schoolId,
+    );
+
+    if (!allowed) {
+      throw new ForbiddenException('Insufficient permissions');
+    }
+
+    return true;
+  }
+}
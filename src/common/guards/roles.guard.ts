@@ -27,9 +27,11 @@ export class RolesGuard implements CanActivate {
       throw new ForbiddenException('User has no roles');
     }
 
-    const hasRole = requiredRoles.some((role) =>
-      user.roles.includes(role),
-    );
+    // Exact match: a plain string would substring-match ("superadmin")
+    const userRoles: string[] = Array.isArray(user.roles)
+      ? user.roles
+      : [user.roles];
+    const hasRole = requiredRoles.some((role) => userRoles.includes(role));
 
     if (!hasRole) {
       throw new ForbiddenException('Insufficient permissions');
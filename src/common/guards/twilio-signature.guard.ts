@@ -0,0 +1,77 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import * as crypto from 'crypto';
+import { notificationsConfig } from '../../config/notifications.config';
+
+/**
+ * Accepts only requests signed by Twilio: X-Twilio-Signature is the
+ * base64 HMAC-SHA1, keyed with the auth token, of the full URL followed
+ * by every POST parameter name and value in name order.
+ */
+@Injectable()
+export class TwilioSignatureGuard implements CanActivate {
+  private readonly logger = new Logger('TwilioWebhook');
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    const signature = request.get('x-twilio-signature');
+
+    if (!notificationsConfig.TWILIO_AUTH_TOKEN) {
+      return this.reject(request, 'no auth token is configured');
+    }
+
+    if (!signature) {
+      return this.reject(request, 'signature header missing');
+    }
+
+    const expected = this.sign(this.url(request), request.body);
+    const actual = Buffer.from(signature);
+
+    if (
+      actual.length !== expected.length ||
+      !crypto.timingSafeEqual(actual, expected)
+    ) {
+      return this.reject(request, 'signature mismatch');
+    }
+
+    return true;
+  }
+
+  private sign(url: string, body: unknown): Buffer {
+    const params = (body && typeof body === 'object' ? body : {}) as Record<
+      string,
+      string
+    >;
+    const payload = Object.keys(params)
+      .sort()
+      .reduce((data, key) => `${data}${key}${params[key]}`, url);
+
+    return Buffer.from(
+      crypto
+        .createHmac('sha1', notificationsConfig.TWILIO_AUTH_TOKEN)
+        .update(payload)
+        .digest('base64'),
+    );
+  }
+
+  private url(request: Request): string {
+    return (
+      notificationsConfig.TWILIO_STATUS_CALLBACK_URL ||
+      `${request.protocol}://${request.get('host')}${request.originalUrl}`
+    );
+  }
+
+  // The reason goes to the log only; the caller gets a bare 403
+  private reject(request: Request, reason: string): never {
+    this.logger.warn(
+      `Rejected webhook ${request.originalUrl} from ${request.ip}: ${reason}`,
+    );
+    throw new ForbiddenException();
+  }
+}
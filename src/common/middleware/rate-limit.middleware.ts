@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import rateLimit from 'express-rate-limit';
+import { CONSTANTS } from '../utils/constants';
 
 /**
  * Global Rate Limiter
@@ -78,3 +79,20 @@ export const strictLimiter = rateLimit({
     return (req.ip || req.connection.remoteAddress || '0.0.0.0') as string;
   },
 });
+
+/**
+ * Password Reset Rate Limiter
+ * Prevents reset email flooding and token guessing
+ * - Limit: 3 attempts per 15 minutes per IP
+ */
+export const passwordResetLimiter = rateLimit({
+  windowMs: CONSTANTS.RATE_LIMIT.WINDOW, // 15 minutes
+  max: CONSTANTS.RATE_LIMIT.PASSWORD_RESET, // 3 attempts per IP
+  message:
+    'Too many password reset requests from this IP, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => {
+    return (req.ip || req.connection.remoteAddress || '0.0.0.0') as string;
+  },
+});
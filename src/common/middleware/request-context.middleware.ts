@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { RequestContextUtil } from '../utils/request-context.util';
+
+/**
+ * Request Context
+ * Tags every request with an id (an incoming X-Request-Id is kept when it
+ * looks sane) and runs the rest of the pipeline inside its context.
+ */
+export const requestContext = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const header = req.headers['x-request-id'];
+  const incoming = Array.isArray(header) ? header[0] : header;
+  const requestId =
+    incoming && /^[\w.-]{1,100}$/.test(incoming) ? incoming : uuidv4();
+
+  res.setHeader('X-Request-Id', requestId);
+  RequestContextUtil.run({ request: req, requestId }, next);
+};
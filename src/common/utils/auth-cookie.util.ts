@@ -0,0 +1,121 @@
+import { Request, Response, CookieOptions } from 'express';
+import * as crypto from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { authConfig } from '../../config/auth.config';
+
+/**
+ * Cookie Auth Helpers
+ * Used when AUTH_MODE=cookie:
+ * - Access and refresh tokens live in HttpOnly cookies
+ * - A readable csrfToken cookie must be echoed in the X-CSRF-Token
+ *   header on state-changing requests (double-submit pattern)
+ */
+export class AuthCookieUtil {
+  static readonly ACCESS_TOKEN = 'accessToken';
+  static readonly REFRESH_TOKEN = 'refreshToken';
+  static readonly CSRF_TOKEN = 'csrfToken';
+  static readonly CSRF_HEADER = 'x-csrf-token';
+
+  static isEnabled(): boolean {
+    return authConfig.AUTH_MODE === 'cookie';
+  }
+
+  static setAuthCookies(
+    res: Response,
+    tokens: { accessToken: string; refreshToken: string },
+  ): void {
+    const refreshExpires = this.getExpiry(tokens.refreshToken);
+
+    res.cookie(this.ACCESS_TOKEN, tokens.accessToken, {
+      ...this.baseOptions(),
+      httpOnly: true,
+      expires: this.getExpiry(tokens.accessToken),
+    });
+    // Only the auth endpoints ever need the refresh token
+    res.cookie(this.REFRESH_TOKEN, tokens.refreshToken, {
+      ...this.baseOptions(),
+      httpOnly: true,
+      path: '/auth',
+      expires: refreshExpires,
+    });
+    res.cookie(this.CSRF_TOKEN, crypto.randomBytes(32).toString('hex'), {
+      ...this.baseOptions(),
+      httpOnly: false,
+      expires: refreshExpires,
+    });
+  }
+
+  static clearAuthCookies(res: Response): void {
+    res.clearCookie(this.ACCESS_TOKEN, this.baseOptions());
+    res.clearCookie(this.REFRESH_TOKEN, {
+      ...this.baseOptions(),
+      path: '/auth',
+    });
+    res.clearCookie(this.CSRF_TOKEN, this.baseOptions());
+  }
+
+  /**
+   * In cookie mode, moves the token pair from the response body into
+   * cookies. Responses without tokens (e.g. MFA challenges) pass through.
+   */
+  static applyTokens<T extends object>(res: Response, result: T): T {
+    if (!this.isEnabled() || !('accessToken' in result)) {
+      return result;
+    }
+
+    const { accessToken, refreshToken, ...rest } = result as T & {
+      accessToken: string;
+      refreshToken: string;
+    };
+    this.setAuthCookies(res, { accessToken, refreshToken });
+    return rest as T;
+  }
+
+  static getRefreshToken(req: Request): string | undefined {
+    return this.isEnabled()
+      ? this.getCookie(req, this.REFRESH_TOKEN)
+      : undefined;
+  }
+
+  static getAccessToken(req: Request): string | undefined {
+    return this.isEnabled()
+      ? this.getCookie(req, this.ACCESS_TOKEN)
+      : undefined;
+  }
+
+  static isSafeMethod(method: string): boolean {
+    return ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase());
+  }
+
+  static hasValidCsrfToken(req: Request): boolean {
+    const cookieToken = this.getCookie(req, this.CSRF_TOKEN);
+    const headerToken = req.headers[this.CSRF_HEADER];
+
+    if (typeof cookieToken !== 'string' || typeof headerToken !== 'string') {
+      return false;
+    }
+
+    const a = Buffer.from(cookieToken);
+    const b = Buffer.from(headerToken);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  private static getCookie(req: Request, name: string): string | undefined {
+    const cookies = req.cookies as Record<string, string> | undefined;
+    return cookies?.[name];
+  }
+
+  private static baseOptions(): CookieOptions {
+    return {
+      secure: authConfig.COOKIE_SECURE,
+      sameSite: authConfig.COOKIE_SAME_SITE,
+      domain: authConfig.COOKIE_DOMAIN,
+      path: '/',
+    };
+  }
+
+  private static getExpiry(token: string): Date | undefined {
+    const payload = jwt.decode(token) as jwt.JwtPayload | null;
+    return payload?.exp ? new Date(payload.exp * 1000) : undefined;
+  }
+}
@@ -0,0 +1,61 @@
+import { Request } from 'express';
+
+export interface ClientContext {
+  userAgent: string | null;
+  ipAddress: string | null;
+  deviceLabel: string | null;
+  // Stable id the client generates once per install, see DevicesService
+  deviceFingerprint: string | null;
+}
+
+export class ClientContextUtil {
+  static fromRequest(req: Request): ClientContext {
+    const userAgent = req.headers['user-agent'] || null;
+    const labelHeader = req.headers['x-device-label'];
+    const deviceLabel =
+      (Array.isArray(labelHeader) ? labelHeader[0] : labelHeader) ||
+      this.describeUserAgent(userAgent);
+    const fingerprintHeader = req.headers['x-device-fingerprint'];
+    const deviceFingerprint = Array.isArray(fingerprintHeader)
+      ? fingerprintHeader[0]
+      : fingerprintHeader;
+
+    return {
+      userAgent,
+      ipAddress: req.ip || req.socket?.remoteAddress || null,
+      deviceLabel: deviceLabel ? deviceLabel.substring(0, 100) : null,
+      deviceFingerprint: deviceFingerprint || null,
+    };
+  }
+
+  /**
+   * Builds a human readable label such as "Chrome on Windows"
+   */
+  static describeUserAgent(userAgent: string | null): string | null {
+    if (!userAgent) return null;
+
+    const browsers: [RegExp, string][] = [
+      [/Edg\//, 'Edge'],
+      [/OPR\/|Opera/, 'Opera'],
+      [/Chrome\//, 'Chrome'],
+      [/Firefox\//, 'Firefox'],
+      [/Safari\//, 'Safari'],
+      [/okhttp|Dart|CFNetwork/, 'Mobile app'],
+    ];
+    const platforms: [RegExp, string][] = [
+      [/Android/, 'Android'],
+      [/iPhone|iPad|iOS/, 'iOS'],
+      [/Windows/, 'Windows'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent));
+    const platform = platforms.find(([pattern]) => pattern.test(userAgent));
+
+    if (!browser && !platform) return 'Unknown device';
+    if (!platform) return browser![1];
+    if (!browser) return platform[1];
+    return `${browser[1]} on ${platform[1]}`;
+  }
+}
@@ -21,8 +21,88 @@ export const CONSTANTS = {
     DEFAULT_LIMIT: 10,
     MAX_LIMIT: 100,
   },
+  IMPORT: {
+    MAX_ROWS: 5000,
+    MAX_FILE_SIZE: 5 * 1024 * 1024, // 5 MB
+    CHUNK_SIZE: 100,
+  },
+  EXPORT: {
+    BATCH_SIZE: 500,
+  },
   USER_ROLES: {
     ADMIN: 'admin',
     USER: 'user',
   },
+  SCHOOL_ROLES: {
+    ADMIN: 'admin',
+    STAFF: 'staff',
+    TEACHER: 'teacher',
+    STUDENT: 'student',
+  },
+  ENROLLMENT_STATUS: {
+    ACTIVE: 'active',
+    WITHDRAWN: 'withdrawn',
+    TRANSFERRED: 'transferred',
+  },
+  NOTIFICATION_CHANNELS: {
+    EMAIL: 'email',
+    WHATSAPP: 'whatsapp',
+    SMS: 'sms',
+    IN_APP: 'in_app',
+  },
+  NOTIFICATION_STATUS: {
+    QUEUED: 'queued',
+    SENT: 'sent',
+    DELIVERED: 'delivered',
+    READ: 'read',
+    FAILED: 'failed',
+    UNDELIVERED: 'undelivered',
+  },
+  JOB_STATUS: {
+    PENDING: 'pending',
+    RUNNING: 'running',
+    COMPLETED: 'completed',
+    // Out of attempts; stays until an admin retries it
+    DEAD: 'dead',
+  },
+  WEBHOOK_EVENTS: {
+    USER_CREATED: 'user.created',
+    USER_UPDATED: 'user.updated',
+    USER_DEACTIVATED: 'user.deactivated',
+    USER_REACTIVATED: 'user.reactivated',
+    SCHOOL_UPDATED: 'school.updated',
+    SCHOOL_DELETED: 'school.deleted',
+    MEMBER_ADDED: 'member.added',
+    MEMBER_UPDATED: 'member.updated',
+    MEMBER_REMOVED: 'member.removed',
+    // Sent only by the "send test event" endpoint
+    TEST: 'webhook.test',
+  },
+  WEBHOOK_DELIVERY_STATUS: {
+    PENDING: 'pending',
+    SUCCEEDED: 'succeeded',
+    // Failed, another attempt is scheduled
+    RETRYING: 'retrying',
+    FAILED: 'failed',
+  },
+  PERMISSIONS: {
+    USERS_READ: 'users:read',
+    USERS_UPDATE: 'users:update',
+    USERS_DELETE: 'users:delete',
+    USERS_MANAGE_ROLES: 'users:manage-roles',
+    USERS_IMPORT: 'users:import',
+    USERS_EXPORT: 'users:export',
+    USERS_UNLOCK: 'users:unlock',
+    CONTACTS_VIEW: 'contacts:view',
+    SESSIONS_MANAGE: 'sessions:manage',
+    DEVICES_MANAGE: 'devices:manage',
+    SCHOOLS_CREATE: 'schools:create',
+    SCHOOLS_READ: 'schools:read',
+    SCHOOLS_UPDATE: 'schools:update',
+    SCHOOLS_DELETE: 'schools:delete',
+    SCHOOLS_EXPORT: 'schools:export',
+    ROLES_MANAGE: 'roles:manage',
+    NOTIFICATIONS_MANAGE: 'notifications:manage',
+    JOBS_MANAGE: 'jobs:manage',
+  },
 };
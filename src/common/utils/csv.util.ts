@@ -0,0 +1,77 @@
+/**
+ * Minimal RFC 4180 CSV reader: quoted fields, escaped quotes ("") and
+ * embedded newlines. Good enough for spreadsheet exports.
+ */
+export class CsvUtil {
+  static parse(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    // Strip the UTF-8 BOM that Excel adds
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    // Drop blank lines
+    return rows.filter((r) => r.some((value) => value.trim() !== ''));
+  }
+
+  /**
+   * Parses a CSV with a header line into records keyed by header name.
+   */
+  static parseRecords(text: string): {
+    headers: string[];
+    records: Record<string, string>[];
+  } {
+    const [headerRow, ...dataRows] = this.parse(text);
+    const headers = (headerRow || []).map((header) => header.trim());
+
+    const records = dataRows.map((values) => {
+      const record: Record<string, string> = {};
+      headers.forEach((header, index) => {
+        record[header] = (values[index] ?? '').trim();
+      });
+      return record;
+    });
+
+    return { headers, records };
+  }
+}
@@ -0,0 +1,162 @@
+import * as crypto from 'crypto';
+import { BadRequestException } from '@nestjs/common';
+import { FindOptions, Op, WhereOptions } from 'sequelize';
+import { Model, ModelCtor } from 'sequelize-typescript';
+import { securityConfig } from '../../config/security.config';
+import { ListQueryDto } from '../dto/list-query.dto';
+import { QueryUtil } from './query.util';
+
+type CursorDirection = 'next' | 'prev';
+
+interface CursorPayload {
+  // Resource the cursor was issued for, so it cannot be replayed elsewhere
+  r: string;
+  c: string;
+  i: string;
+  d: CursorDirection;
+}
+
+export interface CursorPage<T> {
+  rows: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+/**
+ * Keyset pagination over (createdAt, id), newest first. Cursors are opaque
+ * HMAC-signed tokens, so clients cannot forge positions or tamper with them.
+ */
+export class CursorUtil {
+  /**
+   * Whether the list query asked for cursor pagination. Cursor order is
+   * fixed, so a custom sort is rejected rather than silently ignored.
+   */
+  static requested(query: ListQueryDto): boolean {
+    if (query.pagination !== 'cursor' && !query.cursor) {
+      return false;
+    }
+
+    if (query.sort) {
+      throw new BadRequestException(
+        'sort is not supported with cursor pagination',
+      );
+    }
+
+    return true;
+  }
+
+  static encode(
+    resource: string,
+    row: Model,
+    direction: CursorDirection,
+  ): string {
+    const payload: CursorPayload = {
+      r: resource,
+      c: (row.createdAt as Date).toISOString(),
+      i: row.id as string,
+      d: direction,
+    };
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    return `${body}.${this.sign(body)}`;
+  }
+
+  static decode(resource: string, cursor: string): CursorPayload {
+    const [body, signature] = cursor.split('.');
+    const expected = this.sign(body || '');
+
+    if (
+      !signature ||
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    let payload: CursorPayload;
+    try {
+      payload = JSON.parse(
+        Buffer.from(body, 'base64url').toString('utf8'),
+      ) as CursorPayload;
+    } catch {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    if (payload.r !== resource || isNaN(Date.parse(payload.c))) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Fetches one page after (or before) `cursor`. Reads `limit + 1` rows to
+   * learn whether another page exists instead of counting the table.
+   */
+  static async paginate<T extends Model>(
+    model: ModelCtor<T>,
+    resource: string,
+    cursor: string | undefined,
+    limit: number,
+    options: FindOptions = {},
+  ): Promise<CursorPage<T>> {
+    const position = cursor ? this.decode(resource, cursor) : null;
+    const backwards = position?.d === 'prev';
+    const direction = backwards ? 'ASC' : 'DESC';
+
+    const rows = await model.findAll({
+      ...options,
+      where: QueryUtil.and(
+        options.where,
+        position ? this.keyset(position, backwards) : undefined,
+      ),
+      order: [
+        ['createdAt', direction],
+        ['id', direction],
+      ],
+      limit: limit + 1,
+    });
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    if (backwards) {
+      page.reverse();
+    }
+
+    const first = page[0];
+    const last = page[page.length - 1];
+    const hasNext = backwards ? !!position : hasMore;
+    const hasPrev = backwards ? hasMore : !!position;
+
+    return {
+      rows: page,
+      nextCursor: hasNext && last ? this.encode(resource, last, 'next') : null,
+      prevCursor:
+        hasPrev && first ? this.encode(resource, first, 'prev') : null,
+    };
+  }
+
+  // Rows strictly after the cursor in newest-first order, or strictly
+  // before it when paging backwards
+  private static keyset(
+    position: CursorPayload,
+    backwards: boolean,
+  ): WhereOptions {
+    const op = backwards ? Op.gt : Op.lt;
+    const createdAt = new Date(position.c);
+
+    return {
+      [Op.or]: [
+        { createdAt: { [op]: createdAt } },
+        { createdAt, id: { [op]: position.i } },
+      ],
+    };
+  }
+
+  private static sign(body: string): string {
+    return crypto
+      .createHmac('sha256', securityConfig.CURSOR_SECRET)
+      .update(body)
+      .digest('base64url');
+  }
+}
@@ -5,7 +5,7 @@ export class EncryptUtil {
     const iv = crypto.randomBytes(16);
     const cipher = crypto.createCipheriv(
       'aes-256-cbc',
-      Buffer.from(key),
+      this.deriveKey(key),
       iv,
     );
 
@@ -20,7 +20,7 @@ export class EncryptUtil {
     const iv = Buffer.from(parts[0], 'hex');
     const decipher = crypto.createDecipheriv(
       'aes-256-cbc',
-      Buffer.from(key),
+      this.deriveKey(key),
       iv,
     );
 
@@ -29,4 +29,9 @@ export class EncryptUtil {
 
     return decrypted;
   }
+
+  // aes-256 needs exactly 32 bytes, so normalise keys of any length
+  private static deriveKey(key: string): Buffer {
+    return crypto.createHash('sha256').update(key).digest();
+  }
 }
@@ -0,0 +1,132 @@
+import { Response } from 'express';
+import { XlsxStreamWriter } from './xlsx.util';
+
+type ExportValue = string | number | boolean | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportValue;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+export class ExportUtil {
+  static readonly FORMATS = Object.keys(CONTENT_TYPES);
+
+  /**
+   * Writes rows to the response as they are produced, honouring
+   * backpressure so memory stays flat regardless of the export size.
+   */
+  static async stream<T>(
+    res: Response,
+    format: string,
+    filename: string,
+    columns: ExportColumn<T>[],
+    rows: AsyncIterable<T>,
+  ): Promise<void> {
+    res.setHeader('Content-Type', CONTENT_TYPES[format]);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${filename}.${format}"`,
+    );
+    res.setHeader('Cache-Control', 'no-store');
+
+    const xlsx = format === 'xlsx' ? new XlsxStreamWriter() : null;
+    const headers = columns.map((column) => column.header);
+
+    // A closed connection never drains, so settle on close as well and
+    // leave the row loop to notice res.destroyed
+    const write = async (chunk: string | Buffer) => {
+      if (res.write(chunk) || res.destroyed) {
+        return;
+      }
+
+      await new Promise<void>((resolve) => {
+        const settle = () => {
+          res.off('drain', settle);
+          res.off('close', settle);
+          resolve();
+        };
+        res.on('drain', settle);
+        res.on('close', settle);
+      });
+    };
+
+    try {
+      if (xlsx) {
+        await write(xlsx.start());
+        await write(xlsx.writeRow(headers));
+      } else if (format === 'csv') {
+        await write(headers.map((h) => this.escapeCsv(h)).join(',') + '\r\n');
+      }
+
+      for await (const row of rows) {
+        // Stop querying once the client has gone away
+        if (res.destroyed) {
+          return;
+        }
+
+        const values = columns.map((column) =>
+          this.normalize(column.value(row)),
+        );
+
+        if (xlsx) {
+          await write(xlsx.writeRow(values));
+        } else if (format === 'csv') {
+          await write(values.map((v) => this.escapeCsv(v)).join(',') + '\r\n');
+        } else {
+          const record: Record<string, ExportValue> = {};
+          headers.forEach((header, index) => (record[header] = values[index]));
+          await write(JSON.stringify(record) + '\n');
+        }
+      }
+
+      if (xlsx) {
+        await write(xlsx.finish());
+      }
+      res.end();
+    } catch (error) {
+      // Headers are gone already; abort so the client sees a broken download
+      res.destroy(error as Error);
+    }
+  }
+
+  /**
+   * Keeps the last four digits, e.g. "+4915112345678" -> "**********5678".
+   */
+  static maskPhone(value: string | null | undefined): string | null {
+    if (!value) {
+      return null;
+    }
+    const visible = value.slice(-4);
+    return '*'.repeat(Math.max(value.length - 4, 0)) + visible;
+  }
+
+  private static normalize(
+    value: ExportValue,
+  ): string | number | boolean | null {
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    return value ?? null;
+  }
+
+  private static escapeCsv(value: string | number | boolean | null): string {
+    if (value === null) {
+      return '';
+    }
+
+    let text = String(value);
+
+    // Neutralise spreadsheet formulas (CSV injection)
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,103 @@
+import * as dns from 'dns';
+import * as net from 'net';
+
+// Loopback, private, link-local (cloud metadata), CGNAT and reserved ranges.
+// Separate lists, as BlockList matches IPv4 against ::ffff:0:0/96 too
+const PRIVATE_IPV4 = new net.BlockList();
+const PRIVATE_IPV6 = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_IPV4.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 127],
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_IPV6.addSubnet(address, prefix, 'ipv6');
+}
+
+export class NetworkUtil {
+  // IPv4-mapped and NAT64 IPv6 addresses are refused as a whole
+  static isPrivateAddress(address: string): boolean {
+    const family = net.isIP(address);
+    if (family === 0) {
+      return true;
+    }
+
+    return family === 4
+      ? PRIVATE_IPV4.check(address, 'ipv4')
+      : PRIVATE_IPV6.check(address, 'ipv6');
+  }
+
+  /**
+   * Throws unless the host is a public IP literal or a name that only
+   * resolves to public addresses. URL hostnames keep IPv6 brackets.
+   */
+  static async assertPublicHost(hostname: string): Promise<void> {
+    const host = hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host)) {
+      if (this.isPrivateAddress(host)) {
+        throw new Error(`${host} is not a public address`);
+      }
+      return;
+    }
+
+    const addresses = await dns.promises.lookup(host, { all: true });
+    this.assertPublicAddresses(host, addresses);
+  }
+
+  /**
+   * dns.lookup replacement for http(s).request that refuses private
+   * addresses, so the address checked is the one connected to. Literal
+   * IPs skip lookup entirely and need assertPublicHost first.
+   */
+  static readonly publicLookup: net.LookupFunction = (
+    hostname,
+    options,
+    callback,
+  ) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        return callback(error, '');
+      }
+
+      try {
+        NetworkUtil.assertPublicAddresses(hostname, addresses);
+      } catch (blocked) {
+        return callback(blocked as NodeJS.ErrnoException, '');
+      }
+
+      if (options.all) {
+        return callback(null, addresses);
+      }
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+
+  private static assertPublicAddresses(
+    hostname: string,
+    addresses: dns.LookupAddress[],
+  ): void {
+    if (addresses.length === 0) {
+      throw new Error(`${hostname} did not resolve`);
+    }
+    if (addresses.some(({ address }) => this.isPrivateAddress(address))) {
+      throw new Error(`${hostname} resolves to a non-public address`);
+    }
+  }
+}
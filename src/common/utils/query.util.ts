@@ -0,0 +1,85 @@
+import { BadRequestException } from '@nestjs/common';
+import { Op, Order, WhereOptions } from 'sequelize';
+import { ListQueryDto } from '../dto/list-query.dto';
+
+export class QueryUtil {
+  /**
+   * Case-insensitive substring match of `term` on any of `fields`.
+   */
+  static search(fields: string[], term?: string): WhereOptions | undefined {
+    if (!term?.trim()) {
+      return undefined;
+    }
+
+    // Treat LIKE wildcards in user input literally
+    const pattern = `%${term.trim().replace(/[\\%_]/g, '\\$&')}%`;
+
+    return {
+      [Op.or]: fields.map((field) => ({ [field]: { [Op.iLike]: pattern } })),
+    };
+  }
+
+  static createdAtRange(query: ListQueryDto): WhereOptions | undefined {
+    if (!query.createdFrom && !query.createdTo) {
+      return undefined;
+    }
+
+    const range: Record<symbol, Date> = {};
+    if (query.createdFrom) {
+      range[Op.gte] = new Date(query.createdFrom);
+    }
+    if (query.createdTo) {
+      range[Op.lte] = new Date(query.createdTo);
+    }
+
+    return { createdAt: range };
+  }
+
+  /**
+   * Translates "-createdAt,name" into a Sequelize order, allowing only
+   * whitelisted fields. `id` is appended as a tie-breaker so pages are stable.
+   */
+  static order(
+    sort: string | undefined,
+    allowed: string[],
+    fallback: string = '-createdAt',
+  ): Order {
+    const order: [string, string][] = (sort || fallback)
+      .split(',')
+      .map((part) => {
+        const field = part.replace(/^-/, '');
+
+        if (!allowed.includes(field)) {
+          throw new BadRequestException(
+            `Cannot sort by "${field}". Allowed fields: ${allowed.join(', ')}`,
+          );
+        }
+
+        return [field, part.startsWith('-') ? 'DESC' : 'ASC'];
+      });
+
+    if (!order.some(([field]) => field === 'id')) {
+      order.push(['id', 'ASC']);
+    }
+
+    return order;
+  }
+
+  static paginate(query: ListQueryDto): { offset: number; limit: number } {
+    return {
+      offset: (query.page - 1) * query.limit,
+      limit: query.limit,
+    };
+  }
+
+  /**
+   * Combines optional conditions with AND, skipping the empty ones.
+   */
+  static and(...conditions: (WhereOptions | undefined)[]): WhereOptions {
+    const present = conditions.filter(
+      (condition): condition is WhereOptions => !!condition,
+    );
+
+    return present.length > 0 ? { [Op.and]: present } : {};
+  }
+}
@@ -0,0 +1,23 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request } from 'express';
+
+export interface RequestContext {
+  request: Request;
+  requestId: string;
+}
+
+/**
+ * Makes the current request reachable from services without threading it
+ * through every call, e.g. to stamp audit entries with the caller.
+ */
+export class RequestContextUtil {
+  private static storage = new AsyncLocalStorage<RequestContext>();
+
+  static run<T>(context: RequestContext, callback: () => T): T {
+    return this.storage.run(context, callback);
+  }
+
+  static current(): RequestContext | undefined {
+    return this.storage.getStore();
+  }
+}
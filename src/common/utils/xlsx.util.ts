@@ -0,0 +1,214 @@
+import * as zlib from 'zlib';
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  size: number;
+  streamed: boolean;
+}
+
+const STATIC_PARTS: Record<string, string> = {
+  '[Content_Types].xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '</Types>',
+  '_rels/.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>',
+  'xl/workbook.xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="Export" sheetId="1" r:id="rId1"/></sheets>' +
+    '</workbook>',
+  'xl/_rels/workbook.xml.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '</Relationships>',
+};
+
+const SHEET_NAME = 'xl/worksheets/sheet1.xml';
+
+/**
+ * Streaming single-sheet XLSX writer. Each method returns the bytes to
+ * write next, so rows never have to be held in memory. Entries are stored
+ * uncompressed in a plain (non ZIP64) archive, which caps exports at 4 GB.
+ */
+export class XlsxStreamWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private sheet: ZipEntry | null = null;
+
+  start(): Buffer {
+    const chunks = Object.entries(STATIC_PARTS).map(([name, content]) =>
+      this.storedEntry(name, Buffer.from(content, 'utf8')),
+    );
+
+    const sheetName = Buffer.from(SHEET_NAME, 'utf8');
+    this.sheet = {
+      name: sheetName,
+      offset: this.offset,
+      crc: 0,
+      size: 0,
+      streamed: true,
+    };
+    this.entries.push(this.sheet);
+    chunks.push(this.track(this.localHeader(this.sheet)));
+
+    chunks.push(
+      this.sheetData(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+          '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+          '<sheetData>',
+      ),
+    );
+
+    return Buffer.concat(chunks);
+  }
+
+  writeRow(values: (string | number | boolean | null | undefined)[]): Buffer {
+    const cells = values
+      .map((value) => {
+        if (value === null || value === undefined || value === '') {
+          return '<c/>';
+        }
+        if (typeof value === 'number' && Number.isFinite(value)) {
+          return `<c><v>${value}</v></c>`;
+        }
+        if (typeof value === 'boolean') {
+          return `<c t="b"><v>${value ? 1 : 0}</v></c>`;
+        }
+        return `<c t="inlineStr"><is><t xml:space="preserve">${this.escapeXml(String(value))}</t></is></c>`;
+      })
+      .join('');
+
+    return this.sheetData(`<row>${cells}</row>`);
+  }
+
+  finish(): Buffer {
+    const chunks = [this.sheetData('</sheetData></worksheet>')];
+
+    // Data descriptor closing the streamed sheet entry
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(this.sheet!.crc >>> 0, 4);
+    descriptor.writeUInt32LE(this.sheet!.size, 8);
+    descriptor.writeUInt32LE(this.sheet!.size, 12);
+    chunks.push(this.track(descriptor));
+
+    const directoryOffset = this.offset;
+    for (const entry of this.entries) {
+      chunks.push(this.track(this.centralHeader(entry)));
+    }
+    const directorySize = this.offset - directoryOffset;
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directorySize, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    chunks.push(this.track(end));
+
+    return Buffer.concat(chunks);
+  }
+
+  private sheetData(xml: string): Buffer {
+    const data = Buffer.from(xml, 'utf8');
+    this.sheet!.crc = zlib.crc32(data, this.sheet!.crc);
+    this.sheet!.size += data.length;
+    return this.track(data);
+  }
+
+  private storedEntry(name: string, data: Buffer): Buffer {
+    const entry: ZipEntry = {
+      name: Buffer.from(name, 'utf8'),
+      offset: this.offset,
+      crc: zlib.crc32(data),
+      size: data.length,
+      streamed: false,
+    };
+    this.entries.push(entry);
+
+    return Buffer.concat([
+      this.track(this.localHeader(entry)),
+      this.track(data),
+    ]);
+  }
+
+  private localHeader(entry: ZipEntry): Buffer {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(this.flags(entry), 6);
+    header.writeUInt16LE(0, 8); // stored
+    header.writeUInt32LE(this.dosDateTime(), 10);
+    // Streamed entries carry crc and sizes in the trailing data descriptor
+    header.writeUInt32LE(entry.streamed ? 0 : entry.crc >>> 0, 14);
+    header.writeUInt32LE(entry.streamed ? 0 : entry.size, 18);
+    header.writeUInt32LE(entry.streamed ? 0 : entry.size, 22);
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28);
+    return Buffer.concat([header, entry.name]);
+  }
+
+  private centralHeader(entry: ZipEntry): Buffer {
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(this.flags(entry), 8);
+    header.writeUInt16LE(0, 10);
+    header.writeUInt32LE(this.dosDateTime(), 12);
+    header.writeUInt32LE(entry.crc >>> 0, 16);
+    header.writeUInt32LE(entry.size, 20);
+    header.writeUInt32LE(entry.size, 24);
+    header.writeUInt16LE(entry.name.length, 28);
+    header.writeUInt32LE(entry.offset, 42);
+    return Buffer.concat([header, entry.name]);
+  }
+
+  private flags(entry: ZipEntry): number {
+    // bit 11: UTF-8 names, bit 3: sizes follow the data
+    return 0x0800 | (entry.streamed ? 0x0008 : 0);
+  }
+
+  private dosDateTime(): number {
+    const now = new Date();
+    const time =
+      (now.getHours() << 11) |
+      (now.getMinutes() << 5) |
+      Math.floor(now.getSeconds() / 2);
+    const date =
+      ((now.getFullYear() - 1980) << 9) |
+      ((now.getMonth() + 1) << 5) |
+      now.getDate();
+    return ((date << 16) | time) >>> 0;
+  }
+
+  private track(data: Buffer): Buffer {
+    this.offset += data.length;
+    return data;
+  }
+
+  private escapeXml(value: string): string {
+    return (
+      value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // Control characters are not allowed in XML 1.0
+        // eslint-disable-next-line no-control-regex
+        .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+    );
+  }
+}
@@ -4,4 +4,7 @@ export const appConfig = {
   APP_NAME: 'Learning Platform',
   APP_URL: process.env.APP_URL || 'http://localhost:3000',
   CORS_ORIGINS: process.env.CORS_ORIGINS?.split(',') || ['http://localhost:3000'],
+  // Soft-deleted users and schools are purged for good after this many days
+  TRASH_RETENTION_DAYS: Number(process.env.TRASH_RETENTION_DAYS) || 30,
+  TRASH_PURGE_INTERVAL: 6 * 60 * 60 * 1000, // 6 hours
 };
@@ -4,5 +4,39 @@ export const authConfig = {
   JWT_EXPIRY: process.env.JWT_EXPIRY || '15m',
   JWT_REFRESH_EXPIRY: process.env.JWT_REFRESH_EXPIRY || '7d',
   BCRYPT_ROUNDS: Number(process.env.BCRYPT_ROUNDS) || 10,
-  PASSWORD_MIN_LENGTH: 8,
+  PASSWORD_MIN_LENGTH: Number(process.env.PASSWORD_MIN_LENGTH) || 8,
+  // bcrypt ignores everything past 72 bytes
+  PASSWORD_MAX_LENGTH: 72,
+  PASSWORD_REQUIRE_UPPERCASE:
+    process.env.PASSWORD_REQUIRE_UPPERCASE !== 'false',
+  PASSWORD_REQUIRE_LOWERCASE:
+    process.env.PASSWORD_REQUIRE_LOWERCASE !== 'false',
+  PASSWORD_REQUIRE_DIGIT: process.env.PASSWORD_REQUIRE_DIGIT !== 'false',
+  PASSWORD_REQUIRE_SYMBOL: process.env.PASSWORD_REQUIRE_SYMBOL === 'true',
+  // Days until a password must be changed, 0 never expires
+  PASSWORD_MAX_AGE_DAYS: Number(process.env.PASSWORD_MAX_AGE_DAYS) || 0,
+  // Recent passwords, including the current one, that cannot be reused
+  PASSWORD_HISTORY_SIZE: Number(process.env.PASSWORD_HISTORY_SIZE ?? 5),
+  // bearer: tokens returned in the body, cookie: HttpOnly cookies + CSRF
+  AUTH_MODE: process.env.AUTH_MODE || 'bearer',
+  COOKIE_SECURE: process.env.COOKIE_SECURE
+    ? process.env.COOKIE_SECURE === 'true'
+    : process.env.NODE_ENV === 'production',
+  COOKIE_SAME_SITE: (process.env.COOKIE_SAME_SITE || 'strict') as
+    | 'strict'
+    | 'lax'
+    | 'none',
+  COOKIE_DOMAIN: process.env.COOKIE_DOMAIN || undefined,
+  // off: not enforced, restrict: @RequireVerifiedEmail() routes only,
+  // block: unverified accounts cannot sign in at all
+  EMAIL_VERIFICATION_POLICY:
+    process.env.EMAIL_VERIFICATION_POLICY || 'restrict',
+  MFA_ISSUER: process.env.MFA_ISSUER || 'Learning Platform',
+  MFA_TOKEN_SECRET: process.env.MFA_TOKEN_SECRET || 'dev-mfa-secret-key',
+  MFA_TOKEN_EXPIRY: process.env.MFA_TOKEN_EXPIRY || '5m',
+  MFA_RECOVERY_CODE_COUNT: 10,
+  INVITATION_TOKEN_SECRET:
+    process.env.INVITATION_TOKEN_SECRET || 'dev-invitation-secret-key',
+  // Comma separated roles that must enroll in MFA, e.g. "admin"
+  MFA_REQUIRED_ROLES: process.env.MFA_REQUIRED_ROLES?.split(',') || [],
 };
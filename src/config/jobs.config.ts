@@ -0,0 +1,13 @@
+export const jobsConfig = {
+  // Set to "false" on instances that should only serve the API
+  WORKER_ENABLED: process.env.JOB_WORKER_ENABLED !== 'false',
+  POLL_INTERVAL: Number(process.env.JOB_POLL_INTERVAL) || 2 * 1000,
+  // Jobs run at the same time by one worker
+  CONCURRENCY: Number(process.env.JOB_CONCURRENCY) || 5,
+  MAX_ATTEMPTS: Number(process.env.JOB_MAX_ATTEMPTS) || 5,
+  // Retry delay doubles after each failure, up to the maximum
+  BACKOFF_BASE: 30 * 1000, // 30 seconds
+  BACKOFF_MAX: 60 * 60 * 1000, // 1 hour
+  // A running job not finished by then is assumed lost with its worker
+  LOCK_TIMEOUT: 10 * 60 * 1000, // 10 minutes
+};
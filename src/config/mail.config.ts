@@ -0,0 +1,13 @@
+export const mailConfig = {
+  TRANSPORT: process.env.MAIL_TRANSPORT || 'console',
+  FROM: process.env.MAIL_FROM || 'noreply@learning.com',
+  // Used by the smtp transport. SMTP_SECURE opens the connection over TLS
+  // (usually port 465); otherwise STARTTLS is used when the server offers
+  // it, and is required once SMTP_USER is set
+  SMTP_HOST: process.env.SMTP_HOST || 'localhost',
+  SMTP_PORT: Number(process.env.SMTP_PORT) || 587,
+  SMTP_SECURE: process.env.SMTP_SECURE === 'true',
+  SMTP_USER: process.env.SMTP_USER || '',
+  SMTP_PASSWORD: process.env.SMTP_PASSWORD || '',
+  SMTP_TIMEOUT: Number(process.env.SMTP_TIMEOUT) || 30 * 1000,
+};
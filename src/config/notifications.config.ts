@@ -0,0 +1,19 @@
+export const notificationsConfig = {
+  // Twilio-compatible Messages API, used for WhatsApp and SMS. Point the
+  // base URL at a local stub to exercise delivery without Twilio
+  TWILIO_API_URL: process.env.TWILIO_API_URL || 'https://api.twilio.com',
+  TWILIO_ACCOUNT_SID: process.env.TWILIO_ACCOUNT_SID || '',
+  TWILIO_AUTH_TOKEN: process.env.TWILIO_AUTH_TOKEN || '',
+  TWILIO_WHATSAPP_FROM: process.env.TWILIO_WHATSAPP_FROM || '',
+  TWILIO_SMS_FROM: process.env.TWILIO_SMS_FROM || '',
+  TWILIO_TIMEOUT: Number(process.env.TWILIO_TIMEOUT) || 10 * 1000,
+  // Public URL of POST /notifications/webhooks/twilio/status. Sent as the
+  // StatusCallback of each message and used to check callback signatures,
+  // since the URL Twilio signed may differ from what a proxy forwards
+  TWILIO_STATUS_CALLBACK_URL: process.env.TWILIO_STATUS_CALLBACK_URL || '',
+  // Channels used when neither the caller nor the template picks any
+  DEFAULT_CHANNELS: process.env.NOTIFICATION_DEFAULT_CHANNELS?.split(',') || [
+    'in_app',
+    'email',
+  ],
+};
@@ -0,0 +1,35 @@
+export interface OidcProviderConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string;
+}
+
+// Well-known issuers so only client credentials need configuring
+const DEFAULT_ISSUERS: Record<string, string> = {
+  google: 'https://accounts.google.com',
+};
+
+// OIDC_PROVIDERS=google,mock enables OIDC_GOOGLE_*, OIDC_MOCK_* settings
+const providerNames = (process.env.OIDC_PROVIDERS || '')
+  .split(',')
+  .map((name) => name.trim().toLowerCase())
+  .filter(Boolean);
+
+export const oidcConfig = {
+  AUTH_REQUEST_EXPIRY: 10 * 60 * 1000, // 10 minutes
+  PROVIDERS: Object.fromEntries(
+    providerNames.map((name) => {
+      const prefix = `OIDC_${name.toUpperCase()}_`;
+      const provider: OidcProviderConfig = {
+        issuer: process.env[`${prefix}ISSUER`] || DEFAULT_ISSUERS[name] || '',
+        clientId: process.env[`${prefix}CLIENT_ID`] || '',
+        clientSecret: process.env[`${prefix}CLIENT_SECRET`] || '',
+        redirectUri: process.env[`${prefix}REDIRECT_URI`] || '',
+        scopes: process.env[`${prefix}SCOPES`] || 'openid email profile',
+      };
+      return [name, provider];
+    }),
+  ) as Record<string, OidcProviderConfig>,
+};
@@ -3,7 +3,18 @@ export const securityConfig = {
   RATE_LIMIT_WINDOW: 15 * 60 * 1000,
   RATE_LIMIT_LOGIN: 5,
   RATE_LIMIT_PASSWORD_RESET: 3,
-  ACCOUNT_LOCK_DURATION: 30 * 60 * 1000, // 30 minutes
+  // Failed sign-ins before a lock. Each lock in a row lasts
+  // ACCOUNT_LOCK_BACKOFF_MULTIPLIER times longer, up to the maximum.
+  ACCOUNT_LOCK_THRESHOLD: Number(process.env.ACCOUNT_LOCK_THRESHOLD) || 5,
+  ACCOUNT_LOCK_DURATION:
+    Number(process.env.ACCOUNT_LOCK_DURATION) || 30 * 60 * 1000, // 30 minutes
+  ACCOUNT_LOCK_BACKOFF_MULTIPLIER:
+    Number(process.env.ACCOUNT_LOCK_BACKOFF_MULTIPLIER) || 2,
+  ACCOUNT_LOCK_MAX_DURATION:
+    Number(process.env.ACCOUNT_LOCK_MAX_DURATION) || 24 * 60 * 60 * 1000, // 24 hours
   PASSWORD_RESET_TOKEN_EXPIRY: 24 * 60 * 60 * 1000, // 24 hours
+  EMAIL_VERIFICATION_TOKEN_EXPIRY: 48 * 60 * 60 * 1000, // 48 hours
+  INVITATION_EXPIRY: 7 * 24 * 60 * 60 * 1000, // 7 days
   ENCRYPTION_KEY: process.env.ENCRYPTION_KEY || 'dev-encryption-key-32-chars-min',
+  CURSOR_SECRET: process.env.CURSOR_SECRET || 'dev-cursor-secret-key',
 };
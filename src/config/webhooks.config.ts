@@ -0,0 +1,10 @@
+export const webhooksConfig = {
+  TIMEOUT: Number(process.env.WEBHOOK_TIMEOUT) || 10 * 1000,
+  // Attempts per delivery, with the job queue's exponential backoff
+  MAX_ATTEMPTS: Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8,
+  // Lets local development point webhooks at localhost; never in production
+  ALLOW_PRIVATE_NETWORKS:
+    process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === 'true' &&
+    process.env.NODE_ENV !== 'production',
+  MAX_SUBSCRIPTIONS_PER_SCHOOL: 20,
+};
@@ -1,8 +1,31 @@
 import { Sequelize } from 'sequelize-typescript';
 import { Dialect } from 'sequelize';
 import { Users } from '../users/users.entity';
+import { PasswordHistories } from '../users/password-histories.entity';
 import { RefreshTokens } from '../auth/auth.entity';
 import { Schools } from '../schools/schools.entity';
+import { SchoolMembers } from '../schools/school-members.entity';
+import { SchoolInvitations } from '../schools/school-invitations.entity';
+import { Classes } from '../classes/classes.entity';
+import { Enrollments } from '../classes/enrollments.entity';
+import { ImportJobs } from '../imports/import-jobs.entity';
+import { PasswordResetTokens } from '../auth/password-reset-tokens.entity';
+import { MfaRecoveryCodes } from '../auth/mfa-recovery-codes.entity';
+import { EmailVerificationTokens } from '../auth/email-verification-tokens.entity';
+import { UserIdentities } from '../auth/user-identities.entity';
+import { OidcAuthRequests } from '../auth/oidc-auth-requests.entity';
+import { Roles } from '../roles/roles.entity';
+import { Permissions } from '../roles/permissions.entity';
+import { RolePermissions } from '../roles/role-permissions.entity';
+import { UserRoles } from '../roles/user-roles.entity';
+import { AuditLogs } from '../audit/audit-logs.entity';
+import { Devices } from '../devices/devices.entity';
+import { Notifications } from '../notifications/notifications.entity';
+import { NotificationDeliveries } from '../notifications/notification-deliveries.entity';
+import { NotificationPreferences } from '../notifications/notification-preferences.entity';
+import { Jobs } from '../jobs/jobs.entity';
+import { WebhookSubscriptions } from '../webhooks/webhook-subscriptions.entity';
+import { WebhookDeliveries } from '../webhooks/webhook-deliveries.entity';
 
 export const databaseProviders = [
   {
@@ -29,7 +52,34 @@ export const databaseProviders = [
           },
         },
       });
-      sequelize.addModels([Users, RefreshTokens, Schools]);
+      sequelize.addModels([
+        Users,
+        PasswordHistories,
+        RefreshTokens,
+        Schools,
+        SchoolMembers,
+        SchoolInvitations,
+        Classes,
+        Enrollments,
+        ImportJobs,
+        PasswordResetTokens,
+        MfaRecoveryCodes,
+        EmailVerificationTokens,
+        UserIdentities,
+        OidcAuthRequests,
+        Roles,
+        Permissions,
+        RolePermissions,
+        UserRoles,
+        AuditLogs,
+        Devices,
+        Notifications,
+        NotificationDeliveries,
+        NotificationPreferences,
+        Jobs,
+        WebhookSubscriptions,
+        WebhookDeliveries,
+      ]);
       await sequelize.sync();
       return sequelize;
     },
@@ -0,0 +1,33 @@
+import {
+  Controller,
+  Get,
+  Delete,
+  Param,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { DevicesService } from './devices.service';
+import { Devices } from './devices.entity';
+import { JwtGuard } from '../common/guards/jwt.guard';
+import { Audit } from '../common/decorators/audit.decorator';
+
+@Controller('devices')
+export class DevicesController {
+  constructor(private readonly devicesService: DevicesService) {}
+
+  @Get()
+  @UseGuards(JwtGuard)
+  async findAll(@Request() req: any) {
+    const userId = req.user.sub;
+    return this.devicesService.findForUser(userId, req.user.did);
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtGuard)
+  @Audit('device.remove', 'device', { model: Devices })
+  async remove(@Param('id') id: string, @Request() req: any) {
+    const userId = req.user.sub;
+    await this.devicesService.remove(userId, id);
+    return { message: 'Device removed successfully' };
+  }
+}
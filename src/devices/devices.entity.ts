@@ -0,0 +1,71 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { Users } from '../users/users.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+@Table({
+  tableName: 'devices',
+  timestamps: true,
+  indexes: [
+    { fields: ['userId'] },
+    { fields: ['userId', 'fingerprintHash'], unique: true },
+  ],
+})
+export class Devices extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  userId: string;
+
+  // SHA-256 of the X-Device-Fingerprint header; the raw value is never stored
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(64),
+  })
+  fingerprintHash: string;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.STRING(100),
+  })
+  label: string;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.TEXT,
+  })
+  userAgent: string;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.STRING(45),
+  })
+  ipAddress: string;
+
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  lastSeenAt: Date;
+
+  // Relationships
+  @BelongsTo(() => Users, { onDelete: 'CASCADE' })
+  user: Users;
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../db/database.module';
+import { MailModule } from '../mail/mail.module';
+import { AuditModule } from '../audit/audit.module';
+import { DevicesService } from './devices.service';
+import { DevicesController } from './devices.controller';
+import { devicesProviders } from './devices.provider';
+
+@Module({
+  imports: [DatabaseModule, MailModule, AuditModule],
+  providers: [DevicesService, ...devicesProviders],
+  controllers: [DevicesController],
+  exports: [DevicesService],
+})
+export class DevicesModule {}
@@ -0,0 +1,18 @@
+import { Devices } from './devices.entity';
+import { Users } from '../users/users.entity';
+import { RefreshTokens } from '../auth/auth.entity';
+
+export const devicesProviders = [
+  {
+    provide: 'DEVICES_REPOSITORY',
+    useValue: Devices,
+  },
+  {
+    provide: 'USERS_REPOSITORY',
+    useValue: Users,
+  },
+  {
+    provide: 'REFRESH_TOKENS_REPOSITORY',
+    useValue: RefreshTokens,
+  },
+];
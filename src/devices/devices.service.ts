@@ -0,0 +1,296 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import * as crypto from 'crypto';
+import { Devices } from './devices.entity';
+import { Users } from '../users/users.entity';
+import { RefreshTokens } from '../auth/auth.entity';
+import { MailService } from '../mail/mail.service';
+import { AuditService } from '../audit/audit.service';
+import { ClientContext } from '../common/utils/client-context.util';
+import { CONSTANTS } from '../common/utils/constants';
+import { securityConfig } from '../config/security.config';
+import { DeviceResponseDto } from './dto/device-response.dto';
+
+type SignInResult =
+  | { user: Users; device: Devices | null; created: boolean }
+  | { user: Users; device: null; attempts: number };
+
+/**
+ * Devices are identified by the X-Device-Fingerprint header, an id the
+ * client generates once per install. Sign-ins register new devices until
+ * the account reaches its limit; beyond it they are refused and counted,
+ * first with a warning and then by locking the account. Accounts without
+ * a limit register every device and are never refused.
+ */
+@Injectable()
+export class DevicesService {
+  private readonly logger = new Logger('Devices');
+
+  constructor(
+    @Inject('DEVICES_REPOSITORY')
+    private readonly devicesRepository: typeof Devices,
+    @Inject('USERS_REPOSITORY')
+    private readonly usersRepository: typeof Users,
+    @Inject('REFRESH_TOKENS_REPOSITORY')
+    private readonly refreshTokensRepository: typeof RefreshTokens,
+    private readonly mailService: MailService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Returns the device a sign-in comes from, registering it if there is
+   * room. Sign-ins without a fingerprint are not bound to a device and
+   * cannot use routes marked with @Device(); once the account is at its
+   * limit they are refused and counted like an unregistered device.
+   */
+  async registerForSignIn(
+    userId: string,
+    context: ClientContext,
+  ): Promise<Devices | null> {
+    const fingerprintHash = context.deviceFingerprint
+      ? this.hashFingerprint(context.deviceFingerprint)
+      : null;
+    const seen = {
+      label: context.deviceLabel,
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      lastSeenAt: new Date(),
+    };
+
+    const result: SignInResult =
+      await this.devicesRepository.sequelize!.transaction(
+        async (transaction) => {
+          // Lock the user so parallel sign-ins cannot both take the last slot
+          const user = await this.usersRepository.findByPk(userId, {
+            transaction,
+            lock: transaction.LOCK.UPDATE,
+          });
+
+          if (!user) {
+            throw new NotFoundException('User not found');
+          }
+
+          let device = fingerprintHash
+            ? await this.devicesRepository.findOne({
+                where: { userId, fingerprintHash },
+                transaction,
+              })
+            : null;
+          let created = false;
+
+          if (device) {
+            await device.update(seen, { transaction });
+          } else {
+            // Accounts without a limit are neither counted nor locked
+            const limit = user.deviceLimit;
+            const registered =
+              limit === null
+                ? 0
+                : await this.devicesRepository.count({
+                    where: { userId },
+                    transaction,
+                  });
+
+            if (limit !== null && registered >= limit) {
+              const attempts = user.unregisteredDeviceAttempts + 1;
+              await user.update(
+                attempts >= CONSTANTS.DEVICE.LOCK_ATTEMPT
+                  ? {
+                      unregisteredDeviceAttempts: 0,
+                      lockedUntil: new Date(
+                        Date.now() + securityConfig.ACCOUNT_LOCK_DURATION,
+                      ),
+                    }
+                  : { unregisteredDeviceAttempts: attempts },
+                { transaction },
+              );
+              return { user, device: null, attempts };
+            }
+
+            if (fingerprintHash) {
+              device = await this.devicesRepository.create(
+                { userId, fingerprintHash, ...seen },
+                { transaction },
+              );
+              created = true;
+            }
+          }
+
+          if (user.unregisteredDeviceAttempts > 0) {
+            await user.update(
+              { unregisteredDeviceAttempts: 0 },
+              { transaction },
+            );
+          }
+
+          return { user, device, created };
+        },
+      );
+
+    if ('attempts' in result) {
+      return this.refuseSignIn(result.user, result.attempts);
+    }
+
+    if (result.device && result.created) {
+      await this.auditService.record({
+        action: 'device.register',
+        actorId: userId,
+        targetType: 'device',
+        targetId: result.device.id,
+        metadata: { label: result.device.label },
+      });
+    }
+
+    return result.device;
+  }
+
+  /**
+   * Whether the device is still registered to the user and the request
+   * presents the same fingerprint it was registered with.
+   */
+  async isRegistered(
+    userId: string,
+    deviceId: string,
+    fingerprint: string | null,
+  ): Promise<boolean> {
+    if (!fingerprint) {
+      return false;
+    }
+
+    const device = await this.devicesRepository.findOne({
+      where: {
+        id: deviceId,
+        userId,
+        fingerprintHash: this.hashFingerprint(fingerprint),
+      },
+    });
+
+    return !!device;
+  }
+
+  async findForUser(
+    userId: string,
+    currentDeviceId?: string,
+  ): Promise<DeviceResponseDto[]> {
+    const devices = await this.devicesRepository.findAll({
+      where: { userId },
+      order: [['lastSeenAt', 'DESC']],
+    });
+
+    return devices.map((device) => this.toResponseDto(device, currentDeviceId));
+  }
+
+  /**
+   * De-registers a device and signs out every session started from it,
+   * freeing its slot for a new device.
+   */
+  async remove(userId: string, deviceId: string): Promise<void> {
+    const device = await this.devicesRepository.findOne({
+      where: { id: deviceId, userId },
+    });
+
+    if (!device) {
+      throw new NotFoundException('Device not found');
+    }
+
+    await this.devicesRepository.sequelize!.transaction(async (transaction) => {
+      await this.refreshTokensRepository.update(
+        { isRevoked: true, revokedReason: 'device_removed' },
+        { where: { deviceId, isRevoked: false }, transaction },
+      );
+      await device.destroy({ transaction });
+    });
+  }
+
+  // A null limit lifts the cap
+  async setLimit(
+    userId: string,
+    deviceLimit: number | null,
+  ): Promise<{ deviceLimit: number | null; devices: number }> {
+    const user = await this.usersRepository.findByPk(userId);
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    await user.update({ deviceLimit });
+
+    return {
+      deviceLimit: user.deviceLimit,
+      devices: await this.devicesRepository.count({ where: { userId } }),
+    };
+  }
+
+  private async refuseSignIn(user: Users, attempts: number): Promise<never> {
+    if (attempts >= CONSTANTS.DEVICE.LOCK_ATTEMPT) {
+      await this.auditService.record({
+        action: 'device.lockout',
+        actorId: null,
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { lockedUntil: user.lockedUntil },
+      });
+      throw new ForbiddenException(
+        'Account locked after repeated sign-ins from unregistered devices',
+      );
+    }
+
+    if (attempts >= CONSTANTS.DEVICE.WARNING_ATTEMPT) {
+      if (attempts === CONSTANTS.DEVICE.WARNING_ATTEMPT) {
+        await this.sendWarningEmail(user);
+      }
+      throw new ForbiddenException(
+        `Device limit reached. The account locks after ${
+          CONSTANTS.DEVICE.LOCK_ATTEMPT - attempts
+        } more sign-in(s) from unregistered devices`,
+      );
+    }
+
+    throw new ForbiddenException(
+      'Device limit reached. Remove a registered device to sign in from this one',
+    );
+  }
+
+  private async sendWarningEmail(user: Users): Promise<void> {
+    try {
+      await this.mailService.queue({
+        to: user.email,
+        subject: 'Sign-in attempts from new devices',
+        text:
+          `Hi ${user.name || user.email},\n\n` +
+          'Your account has reached its device limit and keeps being used ' +
+          'to sign in from devices that are not registered. Further ' +
+          'attempts will lock the account.\n\n' +
+          'If this was you, remove a device you no longer use first.',
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Device warning email to ${user.email} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private hashFingerprint(fingerprint: string): string {
+    return crypto.createHash('sha256').update(fingerprint).digest('hex');
+  }
+
+  private toResponseDto(
+    device: Devices,
+    currentDeviceId?: string,
+  ): DeviceResponseDto {
+    return {
+      id: device.id,
+      label: device.label,
+      userAgent: device.userAgent,
+      ipAddress: device.ipAddress,
+      lastSeenAt: device.lastSeenAt,
+      createdAt: device.createdAt,
+      current: device.id === currentDeviceId,
+    };
+  }
+}
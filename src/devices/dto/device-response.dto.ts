@@ -0,0 +1,9 @@
+export class DeviceResponseDto {
+  id: string;
+  label: string;
+  userAgent: string;
+  ipAddress: string;
+  lastSeenAt: Date;
+  createdAt: Date;
+  current: boolean;
+}
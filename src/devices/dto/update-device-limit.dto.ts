@@ -0,0 +1,10 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class UpdateDeviceLimitDto {
+  // Omit to remove the limit
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  deviceLimit?: number;
+}
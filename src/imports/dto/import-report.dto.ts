@@ -0,0 +1,18 @@
+export class ImportRowErrorDto {
+  // 1-based record number, counting the header as row 1
+  row: number;
+  email: string;
+  errors: string[];
+}
+
+export class ImportReportDto {
+  jobId: string | null;
+  dryRun: boolean;
+  mode: string;
+  status: string;
+  totalRows: number;
+  validRows: number;
+  processedRows: number;
+  createdCount: number;
+  errors: ImportRowErrorDto[];
+}
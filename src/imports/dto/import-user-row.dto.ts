@@ -0,0 +1,38 @@
+import { IsEmail, IsString, IsOptional, IsIn, IsUUID } from 'class-validator';
+import { CONSTANTS } from '../../common/utils/constants';
+
+/**
+ * One CSV row. Mirrors the CreateUserDto rules; passwords are never
+ * imported, users set their own through the forgot-password flow.
+ */
+export class ImportUserRowDto {
+  @IsEmail({}, { message: 'Email must be valid' })
+  email: string;
+
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  phone?: string;
+
+  @IsString()
+  @IsOptional()
+  whatsappNumber?: string;
+
+  // School role; only allowed together with school
+  @IsIn(Object.values(CONSTANTS.SCHOOL_ROLES), {
+    message: 'Role must be one of: admin, staff, teacher, student',
+  })
+  @IsOptional()
+  role?: string;
+
+  @IsUUID('all', { message: 'School must be a school id' })
+  @IsOptional()
+  school?: string;
+
+  @IsUUID('all', { message: 'Class must be a class id' })
+  @IsOptional()
+  class?: string;
+}
@@ -0,0 +1,90 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { Users } from '../users/users.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+@Table({
+  tableName: 'import_jobs',
+  timestamps: true,
+  indexes: [{ fields: ['createdById'] }, { fields: ['status'] }],
+})
+export class ImportJobs extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  createdById: string;
+
+  // processing, completed or failed
+  @AllowNull(false)
+  @Default('processing')
+  @Column({
+    type: DataType.STRING(20),
+  })
+  status: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.INTEGER,
+  })
+  totalRows: number;
+
+  // Validated rows still to be written, in file order
+  @AllowNull(false)
+  @Column({
+    type: DataType.JSONB,
+  })
+  rows: any[];
+
+  // Resume cursor into `rows`; advanced in the same transaction as each chunk
+  @Default(0)
+  @Column({
+    type: DataType.INTEGER,
+  })
+  processedRows: number;
+
+  @Default(0)
+  @Column({
+    type: DataType.INTEGER,
+  })
+  createdCount: number;
+
+  @AllowNull(false)
+  @Default([])
+  @Column({
+    type: DataType.JSONB,
+  })
+  errors: any[];
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.TEXT,
+  })
+  lastError: string | null;
+
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  completedAt: Date | null;
+
+  // Relationships
+  @BelongsTo(() => Users, { onDelete: 'CASCADE' })
+  createdBy: Users;
+}
@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  Request,
+  HttpCode,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ImportsService } from './imports.service';
+import { JwtGuard } from '../common/guards/jwt.guard';
+import { CONSTANTS } from '../common/utils/constants';
+
+@Controller('users/import')
+@UseGuards(JwtGuard)
+export class ImportsController {
+  constructor(private readonly importsService: ImportsService) {}
+
+  /**
+   * Multipart upload with the CSV in the `file` field.
+   * ?dryRun=true only validates; ?mode=chunked commits in resumable chunks.
+   */
+  @Post()
+  @HttpCode(200)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: CONSTANTS.IMPORT.MAX_FILE_SIZE },
+    }),
+  )
+  async importUsers(
+    @UploadedFile() file: { buffer: Buffer } | undefined,
+    @Request() req: any,
+    @Query('dryRun') dryRun?: string,
+    @Query('mode') mode: string = 'atomic',
+  ) {
+    if (!file) {
+      throw new BadRequestException('A CSV file is required');
+    }
+
+    return this.importsService.importUsers(
+      file.buffer.toString('utf8'),
+      { dryRun: dryRun === 'true', mode },
+      req.user.sub,
+    );
+  }
+
+  @Get(':jobId')
+  async findJob(@Param('jobId') jobId: string, @Request() req: any) {
+    return this.importsService.findJob(jobId, req.user.sub);
+  }
+
+  @Post(':jobId/resume')
+  @HttpCode(200)
+  async resumeJob(@Param('jobId') jobId: string, @Request() req: any) {
+    return this.importsService.resumeJob(jobId, req.user.sub);
+  }
+}
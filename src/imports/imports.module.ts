@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../db/database.module';
+import { RolesModule } from '../roles/roles.module';
+import { UsersModule } from '../users/users.module';
+import { SchoolsModule } from '../schools/schools.module';
+import { ClassesModule } from '../classes/classes.module';
+import { MailModule } from '../mail/mail.module';
+import { ImportsService } from './imports.service';
+import { ImportsController } from './imports.controller';
+import { importsProviders } from './imports.provider';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    RolesModule,
+    UsersModule,
+    SchoolsModule,
+    ClassesModule,
+    MailModule,
+  ],
+  providers: [ImportsService, ...importsProviders],
+  controllers: [ImportsController],
+})
+export class ImportsModule {}
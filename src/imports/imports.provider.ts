@@ -0,0 +1,28 @@
+import { ImportJobs } from './import-jobs.entity';
+import { Users } from '../users/users.entity';
+import { Schools } from '../schools/schools.entity';
+import { Classes } from '../classes/classes.entity';
+import { Enrollments } from '../classes/enrollments.entity';
+
+export const importsProviders = [
+  {
+    provide: 'IMPORT_JOBS_REPOSITORY',
+    useValue: ImportJobs,
+  },
+  {
+    provide: 'USERS_REPOSITORY',
+    useValue: Users,
+  },
+  {
+    provide: 'SCHOOLS_REPOSITORY',
+    useValue: Schools,
+  },
+  {
+    provide: 'CLASSES_REPOSITORY',
+    useValue: Classes,
+  },
+  {
+    provide: 'ENROLLMENTS_REPOSITORY',
+    useValue: Enrollments,
+  },
+];
@@ -0,0 +1,622 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  UnprocessableEntityException,
+  HttpException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcryptjs';
+import * as crypto from 'crypto';
+import { Op, Transaction } from 'sequelize';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { Users } from '../users/users.entity';
+import { Schools } from '../schools/schools.entity';
+import { Classes } from '../classes/classes.entity';
+import { Enrollments } from '../classes/enrollments.entity';
+import { UsersService } from '../users/users.service';
+import { SchoolMembersService } from '../schools/school-members.service';
+import { EnrollmentsService } from '../classes/enrollments.service';
+import { RolesService } from '../roles/roles.service';
+import { MailService } from '../mail/mail.service';
+import { CsvUtil } from '../common/utils/csv.util';
+import { CONSTANTS } from '../common/utils/constants';
+import { appConfig } from '../config/app.config';
+import { authConfig } from '../config/auth.config';
+import { ImportJobs } from './import-jobs.entity';
+import { ImportUserRowDto } from './dto/import-user-row.dto';
+import { ImportReportDto, ImportRowErrorDto } from './dto/import-report.dto';
+
+const IMPORT_COLUMNS = [
+  'email',
+  'name',
+  'phone',
+  'whatsappNumber',
+  'role',
+  'school',
+  'class',
+];
+
+// Roles that can manage the school, so only its admins may grant them
+const PRIVILEGED_ROLES: string[] = [
+  CONSTANTS.SCHOOL_ROLES.ADMIN,
+  CONSTANTS.SCHOOL_ROLES.STAFF,
+];
+
+interface ImportRow extends ImportUserRowDto {
+  row: number;
+}
+
+@Injectable()
+export class ImportsService {
+  private readonly logger = new Logger('Import');
+
+  constructor(
+    @Inject('IMPORT_JOBS_REPOSITORY')
+    private readonly importJobsRepository: typeof ImportJobs,
+    @Inject('USERS_REPOSITORY')
+    private readonly usersRepository: typeof Users,
+    @Inject('SCHOOLS_REPOSITORY')
+    private readonly schoolsRepository: typeof Schools,
+    @Inject('CLASSES_REPOSITORY')
+    private readonly classesRepository: typeof Classes,
+    @Inject('ENROLLMENTS_REPOSITORY')
+    private readonly enrollmentsRepository: typeof Enrollments,
+    private readonly usersService: UsersService,
+    private readonly schoolMembersService: SchoolMembersService,
+    private readonly enrollmentsService: EnrollmentsService,
+    private readonly rolesService: RolesService,
+    private readonly mailService: MailService,
+  ) {}
+
+  async importUsers(
+    csv: string,
+    options: { dryRun: boolean; mode: string },
+    actorId: string,
+  ): Promise<ImportReportDto> {
+    if (!['atomic', 'chunked'].includes(options.mode)) {
+      throw new BadRequestException('Mode must be one of: atomic, chunked');
+    }
+
+    const { headers, records } = CsvUtil.parseRecords(csv);
+
+    if (!headers.includes('email')) {
+      throw new BadRequestException('CSV must have an email column');
+    }
+
+    const unknown = headers.filter(
+      (header) => !IMPORT_COLUMNS.includes(header),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown CSV columns: ${unknown.join(', ')}`,
+      );
+    }
+
+    if (records.length === 0) {
+      throw new BadRequestException('CSV has no rows');
+    }
+
+    if (records.length > CONSTANTS.IMPORT.MAX_ROWS) {
+      throw new BadRequestException(
+        `CSV must not exceed ${CONSTANTS.IMPORT.MAX_ROWS} rows`,
+      );
+    }
+
+    const { rows, errors } = await this.validateRows(records, actorId);
+
+    const report: ImportReportDto = {
+      jobId: null,
+      dryRun: options.dryRun,
+      mode: options.mode,
+      status: 'validated',
+      totalRows: records.length,
+      validRows: rows.length,
+      processedRows: 0,
+      createdCount: 0,
+      errors,
+    };
+
+    if (options.dryRun) {
+      return report;
+    }
+
+    if (options.mode === 'chunked') {
+      const job = await this.importJobsRepository.create({
+        createdById: actorId,
+        totalRows: records.length,
+        rows,
+        errors,
+      });
+
+      return this.processJob(job);
+    }
+
+    // Atomic: one bad row rejects the whole file
+    if (errors.length > 0) {
+      throw new UnprocessableEntityException({
+        message: 'Import has invalid rows; nothing was imported',
+        errors,
+      });
+    }
+
+    const created = await this.usersRepository.sequelize!.transaction(
+      async (transaction) => {
+        const result = await this.insertRows(rows, transaction);
+
+        // Rows raced with other writes since validation; roll everything back
+        if (result.errors.length > 0) {
+          throw new UnprocessableEntityException({
+            message: 'Import has invalid rows; nothing was imported',
+            errors: result.errors,
+          });
+        }
+
+        return result.created;
+      },
+    );
+
+    return {
+      ...report,
+      status: 'completed',
+      processedRows: rows.length,
+      createdCount: created.length,
+    };
+  }
+
+  async findJob(jobId: string, actorId: string): Promise<ImportReportDto> {
+    return this.toReportDto(await this.getJob(jobId, actorId));
+  }
+
+  async resumeJob(jobId: string, actorId: string): Promise<ImportReportDto> {
+    const job = await this.getJob(jobId, actorId);
+
+    if (job.status === 'completed') {
+      throw new BadRequestException('Import job has already completed');
+    }
+
+    return this.processJob(job);
+  }
+
+  /**
+   * Writes the remaining rows of a job chunk by chunk. Each chunk commits
+   * together with the job cursor, so a failed job resumes where it stopped.
+   */
+  private async processJob(job: ImportJobs): Promise<ImportReportDto> {
+    await job.update({ status: 'processing', lastError: null });
+
+    while (job.processedRows < job.rows.length) {
+      const chunk: ImportRow[] = job.rows.slice(
+        job.processedRows,
+        job.processedRows + CONSTANTS.IMPORT.CHUNK_SIZE,
+      );
+
+      try {
+        await this.usersRepository.sequelize!.transaction(
+          async (transaction) => {
+            const result = await this.insertRows(chunk, transaction);
+
+            await job.update(
+              {
+                processedRows: job.processedRows + chunk.length,
+                createdCount: job.createdCount + result.created.length,
+                errors: [...job.errors, ...result.errors],
+              },
+              { transaction },
+            );
+          },
+        );
+      } catch (error) {
+        // Sequelize leaves the instance dirty after a rollback
+        await job.reload();
+        await job.update({
+          status: 'failed',
+          lastError: error instanceof Error ? error.message : String(error),
+        });
+        this.logger.error(
+          `Import job ${job.id} failed`,
+          (error as Error).stack,
+        );
+
+        return this.toReportDto(job);
+      }
+    }
+
+    await job.update({ status: 'completed', completedAt: new Date() });
+
+    return this.toReportDto(job);
+  }
+
+  private async validateRows(
+    records: Record<string, string>[],
+    actorId: string,
+  ): Promise<{ rows: ImportRow[]; errors: ImportRowErrorDto[] }> {
+    const rows: ImportRow[] = [];
+    const errors: ImportRowErrorDto[] = [];
+    const firstSeen = new Map<string, number>();
+    const schoolAccess = new Map<string, string | null>();
+    const classes = new Map<string, Classes | null>();
+    const seatsTaken = new Map<string, number>();
+    let canImportGlobally: boolean | null = null;
+
+    const existing = await this.findExistingEmails(
+      records.map((record) => record.email).filter(Boolean),
+    );
+
+    for (const [index, record] of records.entries()) {
+      const line = index + 2;
+      const rowErrors: string[] = [];
+
+      // Empty cells mean "not provided"
+      const plain: Record<string, string | undefined> = {};
+      for (const [key, value] of Object.entries(record)) {
+        plain[key] = value === '' ? undefined : value;
+      }
+
+      const dto = plainToInstance(ImportUserRowDto, plain);
+      const validationErrors = await validate(dto);
+      for (const validationError of validationErrors) {
+        rowErrors.push(...Object.values(validationError.constraints || {}));
+      }
+
+      if (dto.email) {
+        if (firstSeen.has(dto.email)) {
+          rowErrors.push(
+            `Duplicate email in file (first seen on row ${firstSeen.get(dto.email)})`,
+          );
+        } else {
+          firstSeen.set(dto.email, line);
+        }
+
+        if (existing.has(dto.email)) {
+          rowErrors.push('User with this email already exists');
+        }
+      }
+
+      if (dto.role && !dto.school) {
+        rowErrors.push('Role requires a school');
+      }
+      if (dto.class && !dto.school) {
+        rowErrors.push('Class requires a school');
+      }
+      if (
+        dto.class &&
+        dto.role &&
+        dto.role !== CONSTANTS.SCHOOL_ROLES.STUDENT
+      ) {
+        rowErrors.push('Only students can be enrolled in a class');
+      }
+
+      if (rowErrors.length === 0 && dto.school) {
+        // Admin and staff rows need the same rights as inviting them
+        const privileged = !!dto.role && PRIVILEGED_ROLES.includes(dto.role);
+        const accessKey = `${dto.school}:${privileged}`;
+        if (!schoolAccess.has(accessKey)) {
+          schoolAccess.set(
+            accessKey,
+            await this.checkSchoolAccess(dto.school, actorId, privileged),
+          );
+        }
+        const accessError = schoolAccess.get(accessKey);
+        if (accessError) {
+          rowErrors.push(accessError);
+        }
+      }
+
+      if (rowErrors.length === 0 && !dto.school) {
+        if (canImportGlobally === null) {
+          canImportGlobally = await this.rolesService.hasPermissions(actorId, [
+            CONSTANTS.PERMISSIONS.USERS_IMPORT,
+          ]);
+        }
+        if (!canImportGlobally) {
+          rowErrors.push(
+            'Importing users without a school requires the users:import permission',
+          );
+        }
+      }
+
+      if (rowErrors.length === 0 && dto.class) {
+        if (!classes.has(dto.class)) {
+          classes.set(
+            dto.class,
+            await this.classesRepository.findByPk(dto.class),
+          );
+        }
+        const schoolClass = classes.get(dto.class);
+
+        if (!schoolClass || schoolClass.schoolId !== dto.school) {
+          rowErrors.push('Class not found in this school');
+        } else if (schoolClass.archivedAt) {
+          rowErrors.push('Class is archived');
+        } else if (schoolClass.capacity) {
+          if (!seatsTaken.has(schoolClass.id)) {
+            seatsTaken.set(
+              schoolClass.id,
+              await this.enrollmentsRepository.count({
+                where: {
+                  classId: schoolClass.id,
+                  status: CONSTANTS.ENROLLMENT_STATUS.ACTIVE,
+                },
+              }),
+            );
+          }
+          const taken = seatsTaken.get(schoolClass.id)!;
+
+          if (taken >= schoolClass.capacity) {
+            rowErrors.push('Class is at full capacity');
+          } else {
+            seatsTaken.set(schoolClass.id, taken + 1);
+          }
+        }
+      }
+
+      if (rowErrors.length > 0) {
+        errors.push({ row: line, email: record.email, errors: rowErrors });
+        continue;
+      }
+
+      rows.push({
+        ...dto,
+        role:
+          dto.role || (dto.school ? CONSTANTS.SCHOOL_ROLES.STUDENT : undefined),
+        row: line,
+      });
+    }
+
+    return { rows, errors };
+  }
+
+  /**
+   * Creates the users of a batch with their memberships and enrollments.
+   * Emails taken since validation are reported instead of aborting the batch.
+   */
+  private async insertRows(
+    rows: ImportRow[],
+    transaction: Transaction,
+  ): Promise<{ created: Users[]; errors: ImportRowErrorDto[] }> {
+    const created: Users[] = [];
+    const errors: ImportRowErrorDto[] = [];
+    const nextRollNumber = new Map<string, number>();
+    const schools = new Set<string>();
+    const loadedSchools = new Map<string, Schools>();
+
+    const taken = await this.findExistingEmails(
+      rows.map((row) => row.email),
+      transaction,
+    );
+
+    // Imported accounts get an unusable password until the owner sets one
+    const password = await bcrypt.hash(
+      crypto.randomBytes(32).toString('hex'),
+      authConfig.BCRYPT_ROUNDS,
+    );
+
+    for (const row of rows) {
+      if (taken.has(row.email)) {
+        errors.push({
+          row: row.row,
+          email: row.email,
+          errors: ['User with this email already exists'],
+        });
+        continue;
+      }
+
+      if (row.school && row.class) {
+        const classError = await this.checkClassSeat(
+          row.school,
+          row.class,
+          transaction,
+        );
+        if (classError) {
+          errors.push({ row: row.row, email: row.email, errors: [classError] });
+          continue;
+        }
+      }
+
+      const user = await this.usersRepository.create(
+        {
+          email: row.email,
+          name: row.name,
+          phone: row.phone,
+          whatsappNumber: row.whatsappNumber,
+          password,
+        },
+        { transaction },
+      );
+      created.push(user);
+      await this.queueWelcomeEmail(user, transaction);
+
+      if (!row.school) {
+        continue;
+      }
+
+      if (!loadedSchools.has(row.school)) {
+        const school = await this.schoolsRepository.findByPk(row.school, {
+          transaction,
+        });
+        // Checked during validation; gone only if deleted since
+        if (!school) {
+          throw new NotFoundException(`School ${row.school} not found`);
+        }
+        loadedSchools.set(row.school, school);
+      }
+
+      // Webhooks see the account and its membership, as for invitations
+      await this.usersService.emitCreated(user, row.school, transaction);
+      await this.schoolMembersService.createMember(
+        loadedSchools.get(row.school)!,
+        user,
+        row.role!,
+        transaction,
+      );
+
+      if (row.class) {
+        if (!nextRollNumber.has(row.class)) {
+          const highest: number | null = await this.enrollmentsRepository.max(
+            'rollNumber',
+            {
+              where: {
+                classId: row.class,
+                status: CONSTANTS.ENROLLMENT_STATUS.ACTIVE,
+              },
+              transaction,
+            },
+          );
+          nextRollNumber.set(row.class, (highest || 0) + 1);
+        }
+        const rollNumber = nextRollNumber.get(row.class)!;
+        nextRollNumber.set(row.class, rollNumber + 1);
+
+        await this.enrollmentsRepository.create(
+          {
+            schoolId: row.school,
+            classId: row.class,
+            studentId: user.id,
+            status: CONSTANTS.ENROLLMENT_STATUS.ACTIVE,
+            rollNumber,
+            enrolledAt: new Date().toISOString().slice(0, 10),
+          },
+          { transaction },
+        );
+        schools.add(row.school);
+      }
+    }
+
+    for (const schoolId of schools) {
+      await this.enrollmentsService.syncStudentCount(schoolId, transaction);
+    }
+
+    return { created, errors };
+  }
+
+  // Seats may have gone since validation, so check again under the lock
+  private async checkClassSeat(
+    schoolId: string,
+    classId: string,
+    transaction: Transaction,
+  ): Promise<string | null> {
+    try {
+      await this.enrollmentsService.lockClass(schoolId, classId, transaction);
+      return null;
+    } catch (error) {
+      if (error instanceof HttpException && error.getStatus() < 500) {
+        return error.message;
+      }
+      throw error;
+    }
+  }
+
+  private async findExistingEmails(
+    emails: string[],
+    transaction?: Transaction,
+  ): Promise<Set<string>> {
+    const existing = new Set<string>();
+
+    for (let i = 0; i < emails.length; i += CONSTANTS.IMPORT.CHUNK_SIZE) {
+      const users = await this.usersRepository.findAll({
+        attributes: ['email'],
+        where: {
+          email: {
+            [Op.in]: emails.slice(i, i + CONSTANTS.IMPORT.CHUNK_SIZE),
+          },
+        },
+        // Deleted accounts still hold their email
+        paranoid: false,
+        transaction,
+      });
+
+      users.forEach((user) => existing.add(user.email));
+    }
+
+    return existing;
+  }
+
+  private async checkSchoolAccess(
+    schoolId: string,
+    actorId: string,
+    privileged: boolean,
+  ): Promise<string | null> {
+    try {
+      if (privileged) {
+        await this.schoolMembersService.assertAdmin(schoolId, actorId);
+      } else {
+        await this.schoolMembersService.assertRole(
+          schoolId,
+          actorId,
+          [CONSTANTS.SCHOOL_ROLES.ADMIN, CONSTANTS.SCHOOL_ROLES.STAFF],
+          CONSTANTS.PERMISSIONS.SCHOOLS_UPDATE,
+        );
+      }
+      return null;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return 'School not found';
+      }
+      if (error instanceof ForbiddenException) {
+        return privileged
+          ? 'Only school admins can import admin or staff members'
+          : 'You do not have permission to import users into this school';
+      }
+      throw error;
+    }
+  }
+
+  // Goes out only if the batch that created the user commits
+  private async queueWelcomeEmail(
+    user: Users,
+    transaction: Transaction,
+  ): Promise<void> {
+    const setPasswordUrl = `${appConfig.APP_URL}/forgot-password`;
+
+    await this.mailService.queue(
+      {
+        to: user.email,
+        subject: 'Your account has been created',
+        text:
+          `Hi ${user.name || user.email},\n\n` +
+          'An account has been created for you. ' +
+          `Choose a password to sign in:\n${setPasswordUrl}`,
+      },
+      transaction,
+    );
+  }
+
+  private async getJob(jobId: string, actorId: string): Promise<ImportJobs> {
+    const job = await this.importJobsRepository.findByPk(jobId);
+
+    if (!job) {
+      throw new NotFoundException('Import job not found');
+    }
+
+    if (
+      job.createdById !== actorId &&
+      !(await this.rolesService.hasPermissions(actorId, [
+        CONSTANTS.PERMISSIONS.USERS_IMPORT,
+      ]))
+    ) {
+      throw new ForbiddenException(
+        'You do not have permission to view this import job',
+      );
+    }
+
+    return job;
+  }
+
+  private toReportDto(job: ImportJobs): ImportReportDto {
+    return {
+      jobId: job.id,
+      dryRun: false,
+      mode: 'chunked',
+      status: job.status,
+      totalRows: job.totalRows,
+      validRows: job.rows.length,
+      processedRows: job.processedRows,
+      createdCount: job.createdCount,
+      errors: job.errors,
+    };
+  }
+}
@@ -0,0 +1,14 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ListQueryDto } from '../../common/dto/list-query.dto';
+import { CONSTANTS } from '../../common/utils/constants';
+
+export class JobListQueryDto extends ListQueryDto {
+  @IsIn(Object.values(CONSTANTS.JOB_STATUS))
+  @IsOptional()
+  status?: string;
+
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  type?: string;
+}
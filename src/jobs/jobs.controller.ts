@@ -0,0 +1,45 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+} from '@nestjs/common';
+import { JobsService } from './jobs.service';
+import { Jobs } from './jobs.entity';
+import { JobListQueryDto } from './dto/job-list-query.dto';
+import { JwtGuard } from '../common/guards/jwt.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { Permissions } from '../common/decorators/permissions.decorator';
+import { Audit } from '../common/decorators/audit.decorator';
+import { CONSTANTS } from '../common/utils/constants';
+
+@Controller('jobs')
+export class JobsController {
+  constructor(private readonly jobsService: JobsService) {}
+
+  @Get()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.JOBS_MANAGE)
+  async findAll(@Query() query: JobListQueryDto) {
+    return this.jobsService.findAll(query);
+  }
+
+  @Get(':id')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.JOBS_MANAGE)
+  async findOne(@Param('id') id: string) {
+    return this.jobsService.findById(id);
+  }
+
+  @Post(':id/retry')
+  @HttpCode(200)
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.JOBS_MANAGE)
+  @Audit('job.retry', 'job', { model: Jobs })
+  async retry(@Param('id') id: string) {
+    return this.jobsService.retry(id);
+  }
+}
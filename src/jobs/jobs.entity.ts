@@ -0,0 +1,84 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+} from 'sequelize-typescript';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Outbox of background jobs. Rows are written in the same transaction as
+ * the change that causes them and picked up by JobsWorker once committed.
+ */
+@Table({
+  tableName: 'jobs',
+  timestamps: true,
+  indexes: [{ fields: ['status', 'runAt'] }, { fields: ['type'] }],
+})
+export class Jobs extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  // Name of the registered handler, e.g. "mail.send"
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(100),
+  })
+  type: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.JSONB,
+  })
+  payload: Record<string, unknown>;
+
+  @Default('pending')
+  @Column({
+    type: DataType.STRING(20),
+  })
+  status: string;
+
+  @Default(0)
+  @Column({
+    type: DataType.INTEGER,
+  })
+  attempts: number;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.INTEGER,
+  })
+  maxAttempts: number;
+
+  // Earliest time the job may run; pushed back after each failure
+  @AllowNull(false)
+  @Column({
+    type: DataType.DATE,
+  })
+  runAt: Date;
+
+  // Set while a worker runs the job
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  lockedAt: Date;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.TEXT,
+  })
+  lastError: string;
+
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  completedAt: Date;
+}
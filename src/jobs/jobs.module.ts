@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../db/database.module';
+import { RolesModule } from '../roles/roles.module';
+import { AuditModule } from '../audit/audit.module';
+import { JobsService } from './jobs.service';
+import { JobsWorker } from './jobs.worker';
+import { JobsController } from './jobs.controller';
+import { jobsProviders } from './jobs.provider';
+
+@Module({
+  imports: [DatabaseModule, RolesModule, AuditModule],
+  providers: [JobsService, JobsWorker, ...jobsProviders],
+  controllers: [JobsController],
+  exports: [JobsService],
+})
+export class JobsModule {}
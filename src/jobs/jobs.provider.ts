@@ -0,0 +1,8 @@
+import { Jobs } from './jobs.entity';
+
+export const jobsProviders = [
+  {
+    provide: 'JOBS_REPOSITORY',
+    useValue: Jobs,
+  },
+];
@@ -0,0 +1,239 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Op, Transaction } from 'sequelize';
+import { Jobs } from './jobs.entity';
+import { CONSTANTS } from '../common/utils/constants';
+import { QueryUtil } from '../common/utils/query.util';
+import { jobsConfig } from '../config/jobs.config';
+import { JobListQueryDto } from './dto/job-list-query.dto';
+import { JobResponseDto } from './dto/job-response.dto';
+
+// Receives the claimed job too, e.g. to tell whether this is the last attempt
+export type JobHandler = (payload: any, job: Jobs) => Promise<void>;
+
+export interface EnqueueOptions {
+  // Commits the job together with the change that caused it
+  transaction?: Transaction;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+const { PENDING, RUNNING, COMPLETED, DEAD } = CONSTANTS.JOB_STATUS;
+
+@Injectable()
+export class JobsService {
+  private readonly logger = new Logger('Jobs');
+  private readonly handlers = new Map<string, JobHandler>();
+
+  constructor(
+    @Inject('JOBS_REPOSITORY')
+    private readonly jobsRepository: typeof Jobs,
+  ) {}
+
+  /**
+   * Registers the function that runs jobs of a type. Modules register
+   * their handlers on init, before the worker starts polling.
+   */
+  register(type: string, handler: JobHandler): void {
+    if (this.handlers.has(type)) {
+      throw new Error(`A handler for job "${type}" is already registered`);
+    }
+    this.handlers.set(type, handler);
+  }
+
+  async enqueue(
+    type: string,
+    payload: object,
+    options: EnqueueOptions = {},
+  ): Promise<Jobs> {
+    return this.jobsRepository.create(
+      {
+        type,
+        payload,
+        status: PENDING,
+        maxAttempts: options.maxAttempts ?? jobsConfig.MAX_ATTEMPTS,
+        runAt: options.runAt ?? new Date(),
+      },
+      { transaction: options.transaction },
+    );
+  }
+
+  /**
+   * Takes up to `limit` due jobs and marks them running. SKIP LOCKED lets
+   * several workers poll the table without picking the same job. Running
+   * jobs past the lock timeout are taken again, as their worker is gone.
+   */
+  async claim(limit: number): Promise<Jobs[]> {
+    return this.jobsRepository.sequelize!.transaction(async (transaction) => {
+      const now = new Date();
+      const jobs = await this.jobsRepository.findAll({
+        where: {
+          [Op.or]: [
+            { status: PENDING, runAt: { [Op.lte]: now } },
+            {
+              status: RUNNING,
+              lockedAt: {
+                [Op.lt]: new Date(now.getTime() - jobsConfig.LOCK_TIMEOUT),
+              },
+            },
+          ],
+        },
+        order: [['runAt', 'ASC']],
+        limit,
+        lock: transaction.LOCK.UPDATE,
+        skipLocked: true,
+        transaction,
+      });
+
+      for (const job of jobs) {
+        await job.update(
+          { status: RUNNING, lockedAt: now, attempts: job.attempts + 1 },
+          { transaction },
+        );
+      }
+
+      return jobs;
+    });
+  }
+
+  // Runs a claimed job and records the outcome; never throws
+  async run(job: Jobs): Promise<void> {
+    const handler = this.handlers.get(job.type);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job "${job.type}"`);
+      }
+
+      await handler(job.payload, job);
+      await job.update({
+        status: COMPLETED,
+        lockedAt: null,
+        lastError: null,
+        completedAt: new Date(),
+      });
+    } catch (error) {
+      await this.fail(job, error as Error).catch((updateError: Error) =>
+        this.logger.error(
+          `Could not record failure of job ${job.id}`,
+          updateError.stack,
+        ),
+      );
+    }
+  }
+
+  async findAll(query: JobListQueryDto) {
+    const { offset, limit } = QueryUtil.paginate(query);
+
+    const { count, rows } = await this.jobsRepository.findAndCountAll({
+      where: QueryUtil.and(
+        QueryUtil.search(['type', 'lastError'], query.search),
+        query.status ? { status: query.status } : undefined,
+        query.type ? { type: query.type } : undefined,
+        QueryUtil.createdAtRange(query),
+      ),
+      offset,
+      limit,
+      order: QueryUtil.order(query.sort, [
+        'createdAt',
+        'runAt',
+        'attempts',
+        'type',
+        'status',
+      ]),
+    });
+
+    return {
+      data: rows.map((job) => this.toResponseDto(job)),
+      total: count,
+      page: query.page,
+      limit,
+      pages: Math.ceil(count / limit),
+    };
+  }
+
+  async findById(id: string): Promise<JobResponseDto> {
+    return this.toResponseDto(await this.findEntity(id));
+  }
+
+  /**
+   * Puts a dead job back in the queue with a fresh set of attempts. The
+   * last error is kept until the job next runs.
+   */
+  async retry(id: string): Promise<JobResponseDto> {
+    const job = await this.findEntity(id);
+
+    if (job.status !== DEAD) {
+      throw new BadRequestException('Only dead jobs can be retried');
+    }
+
+    await job.update({
+      status: PENDING,
+      attempts: 0,
+      runAt: new Date(),
+      lockedAt: null,
+    });
+
+    return this.toResponseDto(job);
+  }
+
+  private async fail(job: Jobs, error: Error): Promise<void> {
+    if (job.attempts >= job.maxAttempts) {
+      this.logger.error(
+        `Job ${job.id} (${job.type}) failed ${job.attempts} time(s) and is dead: ${error.message}`,
+      );
+      await job.update({
+        status: DEAD,
+        lockedAt: null,
+        lastError: error.message,
+      });
+      return;
+    }
+
+    const delay = Math.min(
+      jobsConfig.BACKOFF_BASE * 2 ** (job.attempts - 1),
+      jobsConfig.BACKOFF_MAX,
+    );
+    this.logger.warn(
+      `Job ${job.id} (${job.type}) failed, retrying in ${delay / 1000}s: ${error.message}`,
+    );
+    await job.update({
+      status: PENDING,
+      lockedAt: null,
+      lastError: error.message,
+      runAt: new Date(Date.now() + delay),
+    });
+  }
+
+  private async findEntity(id: string): Promise<Jobs> {
+    const job = await this.jobsRepository.findByPk(id);
+
+    if (!job) {
+      throw new NotFoundException('Job not found');
+    }
+
+    return job;
+  }
+
+  private toResponseDto(job: Jobs): JobResponseDto {
+    return {
+      id: job.id,
+      type: job.type,
+      payload: job.payload,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      runAt: job.runAt,
+      lockedAt: job.lockedAt,
+      lastError: job.lastError,
+      completedAt: job.completedAt,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    };
+  }
+}
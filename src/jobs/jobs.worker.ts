@@ -0,0 +1,66 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { JobsService } from './jobs.service';
+import { jobsConfig } from '../config/jobs.config';
+
+/**
+ * Polls the jobs table and runs due jobs, at most CONCURRENCY at a time.
+ * Every instance runs a worker unless JOB_WORKER_ENABLED is "false".
+ */
+@Injectable()
+export class JobsWorker
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger('JobsWorker');
+  private readonly active = new Set<Promise<void>>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(private readonly jobsService: JobsService) {}
+
+  onApplicationBootstrap(): void {
+    if (!jobsConfig.WORKER_ENABLED) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.poll(), jobsConfig.POLL_INTERVAL);
+    this.timer.unref();
+  }
+
+  // Lets running jobs finish so they are not retried as lost
+  async onApplicationShutdown(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await Promise.all(this.active);
+  }
+
+  async poll(): Promise<void> {
+    const free = jobsConfig.CONCURRENCY - this.active.size;
+    if (this.polling || free <= 0) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const jobs = await this.jobsService.claim(free);
+
+      for (const job of jobs) {
+        const running = this.jobsService
+          .run(job)
+          .finally(() => this.active.delete(running));
+        this.active.add(running);
+      }
+    } catch (error) {
+      this.logger.error('Polling jobs failed', (error as Error).stack);
+    } finally {
+      this.polling = false;
+    }
+  }
+}
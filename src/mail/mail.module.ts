@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { JobsModule } from '../jobs/jobs.module';
+import { MailService } from './mail.service';
+import { mailProviders } from './mail.provider';
+
+@Module({
+  imports: [JobsModule],
+  providers: [MailService, ...mailProviders],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,18 @@
+import { mailConfig } from '../config/mail.config';
+import { ConsoleMailTransport, MailTransport } from './mail.transport';
+import { SmtpMailTransport } from './smtp-mail.transport';
+
+export const mailProviders = [
+  {
+    provide: 'MAIL_TRANSPORT',
+    useFactory: (): MailTransport => {
+      switch (mailConfig.TRANSPORT) {
+        case 'smtp':
+          return new SmtpMailTransport();
+        case 'console':
+        default:
+          return new ConsoleMailTransport();
+      }
+    },
+  },
+];
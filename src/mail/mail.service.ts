@@ -0,0 +1,33 @@
+import { Injectable, Inject, OnModuleInit } from '@nestjs/common';
+import { Transaction } from 'sequelize';
+import { mailConfig } from '../config/mail.config';
+import { JobsService } from '../jobs/jobs.service';
+import type { MailMessage, MailTransport } from './mail.transport';
+
+@Injectable()
+export class MailService implements OnModuleInit {
+  constructor(
+    @Inject('MAIL_TRANSPORT')
+    private readonly transport: MailTransport,
+    private readonly jobsService: JobsService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobsService.register('mail.send', (message: MailMessage) =>
+      this.send(message),
+    );
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: mailConfig.FROM });
+  }
+
+  /**
+   * Sends the message from the job worker, with retries, once the given
+   * transaction commits. The message is stored as is, so anything secret
+   * such as a sign-in link must not go through the queue.
+   */
+  async queue(message: MailMessage, transaction?: Transaction): Promise<void> {
+    await this.jobsService.enqueue('mail.send', message, { transaction });
+  }
+}
@@ -0,0 +1,28 @@
+import { Logger } from '@nestjs/common';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Console Mail Transport
+ * Writes outgoing mail to the application log instead of delivering it
+ * - Default transport for local development
+ */
+export class ConsoleMailTransport implements MailTransport {
+  private logger = new Logger('Mail');
+
+  send(message: MailMessage & { from: string }): Promise<void> {
+    this.logger.log(
+      `To: ${message.to} | Subject: ${message.subject}\n${message.text}`,
+    );
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,46 @@
+import * as nodemailer from 'nodemailer';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport';
+import { mailConfig } from '../config/mail.config';
+import type { MailMessage, MailTransport } from './mail.transport';
+
+/**
+ * SMTP Mail Transport
+ * Delivers mail through the server in SMTP_HOST / SMTP_PORT. With
+ * credentials configured the connection must be encrypted (SMTP_SECURE or
+ * STARTTLS) and the login must succeed, otherwise sending fails rather
+ * than going out in plaintext or unauthenticated.
+ */
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor() {
+    const authenticated = Boolean(mailConfig.SMTP_USER);
+    // forceAuth is missing from the typings; without it nodemailer skips
+    // the login when the server advertises no AUTH mechanism
+    const options: SMTPTransport.Options & { forceAuth?: boolean } = {
+      host: mailConfig.SMTP_HOST,
+      port: mailConfig.SMTP_PORT,
+      secure: mailConfig.SMTP_SECURE,
+      requireTLS: authenticated,
+      auth: authenticated
+        ? { user: mailConfig.SMTP_USER, pass: mailConfig.SMTP_PASSWORD }
+        : undefined,
+      forceAuth: authenticated,
+      connectionTimeout: mailConfig.SMTP_TIMEOUT,
+      greetingTimeout: mailConfig.SMTP_TIMEOUT,
+      socketTimeout: mailConfig.SMTP_TIMEOUT,
+    };
+
+    this.transporter = nodemailer.createTransport(options);
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
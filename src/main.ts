@@ -7,6 +7,7 @@ import { AllExceptionsFilter } from './common/filters/exception.filter';
 import { ResponseInterceptor } from './common/interceptors/response.interceptor';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
 import { globalLimiter } from './common/middleware/rate-limit.middleware';
+import { requestContext } from './common/middleware/request-context.middleware';
 
 async function bootstrap() {
   try {
@@ -24,7 +25,15 @@ async function bootstrap() {
       origin: process.env.CORS_ORIGINS?.split(',') || 'http://localhost:3000',
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-CSRF-Token'],
+      allowedHeaders: [
+        'Content-Type',
+        'Authorization',
+        'X-CSRF-Token',
+        'X-Device-Label',
+        'X-Device-Fingerprint',
+        'X-Request-Id',
+      ],
+      exposedHeaders: ['X-Request-Id'],
     });
 
     // 3. Global Rate Limiting - Prevents DoS attacks
@@ -34,7 +43,10 @@ async function bootstrap() {
     // 4. Cookie Parser
     app.use(cookieParser());
 
-    // 5. Global Validation Pipe
+    // 5. Request Context - request ids for logs and the audit trail
+    app.use(requestContext);
+
+    // 6. Global Validation Pipe
     app.useGlobalPipes(
       new ValidationPipe({
         whitelist: true,
@@ -46,10 +58,10 @@ async function bootstrap() {
       }),
     );
 
-    // 6. Global Exception Filter
+    // 7. Global Exception Filter
     app.useGlobalFilters(new AllExceptionsFilter());
 
-    // 7. Global Interceptors
+    // 8. Global Interceptors
     app.useGlobalInterceptors(
       new LoggingInterceptor(),
       new ResponseInterceptor(),
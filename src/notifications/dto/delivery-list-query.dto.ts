@@ -0,0 +1,27 @@
+import { IsIn, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { ListQueryDto } from '../../common/dto/list-query.dto';
+import { CONSTANTS } from '../../common/utils/constants';
+
+export class DeliveryListQueryDto extends ListQueryDto {
+  @IsUUID()
+  @IsOptional()
+  userId?: string;
+
+  @IsIn(Object.values(CONSTANTS.NOTIFICATION_CHANNELS))
+  @IsOptional()
+  channel?: string;
+
+  @IsIn(Object.values(CONSTANTS.NOTIFICATION_STATUS))
+  @IsOptional()
+  status?: string;
+
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  template?: string;
+
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  providerMessageId?: string;
+}
@@ -0,0 +1,12 @@
+export class NotificationDeliveryResponseDto {
+  id: string;
+  userId: string;
+  channel: string;
+  template: string;
+  recipient: string;
+  status: string;
+  providerMessageId: string | null;
+  error: string | null;
+  statusUpdatedAt: Date | null;
+  createdAt: Date;
+}
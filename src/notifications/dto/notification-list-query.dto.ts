@@ -0,0 +1,10 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ListQueryDto, ToBoolean } from '../../common/dto/list-query.dto';
+
+export class NotificationListQueryDto extends ListQueryDto {
+  // true: unread only, false: read only
+  @ToBoolean()
+  @IsBoolean()
+  @IsOptional()
+  unread?: boolean;
+}
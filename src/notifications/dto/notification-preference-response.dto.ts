@@ -0,0 +1,4 @@
+export class NotificationPreferenceResponseDto {
+  channel: string;
+  enabled: boolean;
+}
@@ -0,0 +1,9 @@
+export class NotificationResponseDto {
+  id: string;
+  template: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown> | null;
+  readAt: Date | null;
+  createdAt: Date;
+}
@@ -0,0 +1,21 @@
+import { IsArray, IsIn, IsObject, IsOptional, IsUUID } from 'class-validator';
+import { CONSTANTS } from '../../common/utils/constants';
+import { NOTIFICATION_TEMPLATES } from '../notification.templates';
+
+export class SendNotificationDto {
+  @IsUUID()
+  userId: string;
+
+  @IsIn(Object.keys(NOTIFICATION_TEMPLATES))
+  template: string;
+
+  // Values for the template placeholders
+  @IsObject()
+  @IsOptional()
+  variables?: Record<string, string>;
+
+  @IsArray()
+  @IsIn(Object.values(CONSTANTS.NOTIFICATION_CHANNELS), { each: true })
+  @IsOptional()
+  channels?: string[];
+}
@@ -0,0 +1,9 @@
+import { IsArray, IsIn } from 'class-validator';
+import { CONSTANTS } from '../../common/utils/constants';
+
+export class UpdateNotificationPreferencesDto {
+  // Channels the user opts out of; every other channel is enabled
+  @IsArray()
+  @IsIn(Object.values(CONSTANTS.NOTIFICATION_CHANNELS), { each: true })
+  disabledChannels: string[];
+}
@@ -0,0 +1,90 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { Users } from '../users/users.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Delivery log: one row per message handed to a channel, with the status
+ * last reported for it.
+ */
+@Table({
+  tableName: 'notification_deliveries',
+  timestamps: true,
+  indexes: [
+    { fields: ['userId'] },
+    { fields: ['channel', 'status'] },
+    { fields: ['providerMessageId'] },
+    { fields: ['createdAt'] },
+  ],
+})
+export class NotificationDeliveries extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  userId: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(20),
+  })
+  channel: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(100),
+  })
+  template: string;
+
+  // Email address, phone number or, for in-app, the user id
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(255),
+  })
+  recipient: string;
+
+  @Default('queued')
+  @Column({
+    type: DataType.STRING(20),
+  })
+  status: string;
+
+  // Message id returned by the provider, e.g. a Twilio message SID
+  @AllowNull(true)
+  @Column({
+    type: DataType.STRING(100),
+  })
+  providerMessageId: string;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.TEXT,
+  })
+  error: string;
+
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  statusUpdatedAt: Date;
+
+  // Relationships
+  @BelongsTo(() => Users, { onDelete: 'CASCADE' })
+  user: Users;
+}
@@ -0,0 +1,50 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { Users } from '../users/users.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+// A missing row means the channel is enabled
+@Table({
+  tableName: 'notification_preferences',
+  timestamps: true,
+  indexes: [{ fields: ['userId', 'channel'], unique: true }],
+})
+export class NotificationPreferences extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  userId: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(20),
+  })
+  channel: string;
+
+  @Default(true)
+  @Column({
+    type: DataType.BOOLEAN,
+  })
+  enabled: boolean;
+
+  // Relationships
+  @BelongsTo(() => Users, { onDelete: 'CASCADE' })
+  user: Users;
+}
@@ -0,0 +1,148 @@
+import { Users } from '../users/users.entity';
+import { MailService } from '../mail/mail.service';
+import { Notifications } from './notifications.entity';
+import { notificationsConfig } from '../config/notifications.config';
+import { CONSTANTS } from '../common/utils/constants';
+
+export interface ChannelMessage {
+  user: Users;
+  template: string;
+  subject: string;
+  text: string;
+  data: Record<string, unknown>;
+}
+
+export interface ChannelResult {
+  status: string;
+  providerMessageId?: string | null;
+}
+
+export interface NotificationChannel {
+  readonly name: string;
+  // Address the message goes to, or null when the user has none
+  recipient(user: Users): string | null;
+  send(message: ChannelMessage): Promise<ChannelResult>;
+}
+
+/**
+ * Email Channel
+ * Sends through MailService, so it uses whichever mail transport is set
+ */
+export class EmailChannel implements NotificationChannel {
+  readonly name = CONSTANTS.NOTIFICATION_CHANNELS.EMAIL;
+
+  constructor(private readonly mailService: MailService) {}
+
+  recipient(user: Users): string | null {
+    return user.email || null;
+  }
+
+  async send(message: ChannelMessage): Promise<ChannelResult> {
+    await this.mailService.send({
+      to: message.user.email,
+      subject: message.subject,
+      text: message.text,
+    });
+
+    return { status: CONSTANTS.NOTIFICATION_STATUS.SENT };
+  }
+}
+
+/**
+ * Twilio Channel
+ * Posts to a Twilio-compatible Messages API. WhatsApp and SMS share the
+ * API and differ only in the "whatsapp:" address prefix and sender.
+ */
+export class TwilioChannel implements NotificationChannel {
+  constructor(
+    readonly name: string,
+    private readonly from: string,
+    private readonly prefix: string = '',
+  ) {}
+
+  recipient(user: Users): string | null {
+    // WhatsApp falls back to the phone number, which is often the same
+    const number = this.prefix ? user.whatsappNumber || user.phone : user.phone;
+    return number || null;
+  }
+
+  async send(message: ChannelMessage): Promise<ChannelResult> {
+    const { TWILIO_API_URL, TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN } =
+      notificationsConfig;
+
+    if (!TWILIO_ACCOUNT_SID || !this.from) {
+      throw new Error(`${this.name} channel is not configured`);
+    }
+
+    const body = new URLSearchParams({
+      From: `${this.prefix}${this.from}`,
+      To: `${this.prefix}${this.recipient(message.user)}`,
+      Body: message.text,
+    });
+    if (notificationsConfig.TWILIO_STATUS_CALLBACK_URL) {
+      body.set(
+        'StatusCallback',
+        notificationsConfig.TWILIO_STATUS_CALLBACK_URL,
+      );
+    }
+
+    const response = await fetch(
+      `${TWILIO_API_URL}/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(
+            `${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`,
+          ).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body,
+        signal: AbortSignal.timeout(notificationsConfig.TWILIO_TIMEOUT),
+      },
+    );
+    const payload = (await response.json().catch(() => ({}))) as {
+      sid?: string;
+      message?: string;
+    };
+
+    if (!response.ok) {
+      throw new Error(
+        `Twilio responded ${response.status}: ${payload.message || response.statusText}`,
+      );
+    }
+
+    return {
+      status: CONSTANTS.NOTIFICATION_STATUS.SENT,
+      providerMessageId: payload.sid || null,
+    };
+  }
+}
+
+/**
+ * In-App Channel
+ * Stores the message in the user's inbox
+ */
+export class InAppChannel implements NotificationChannel {
+  readonly name = CONSTANTS.NOTIFICATION_CHANNELS.IN_APP;
+
+  constructor(private readonly notificationsRepository: typeof Notifications) {}
+
+  recipient(user: Users): string | null {
+    return user.id;
+  }
+
+  async send(message: ChannelMessage): Promise<ChannelResult> {
+    const notification = await this.notificationsRepository.create({
+      userId: message.user.id,
+      template: message.template,
+      title: message.subject,
+      body: message.text,
+      data: message.data,
+    });
+
+    return {
+      status: CONSTANTS.NOTIFICATION_STATUS.DELIVERED,
+      providerMessageId: notification.id,
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { CONSTANTS } from '../common/utils/constants';
+
+export interface NotificationTemplate {
+  // "{{name}}" placeholders are filled from the template variables
+  subject: string;
+  text: string;
+  // Channels used when the caller does not pick any
+  channels?: string[];
+}
+
+const { EMAIL, IN_APP } = CONSTANTS.NOTIFICATION_CHANNELS;
+
+export const NOTIFICATION_TEMPLATES: Record<string, NotificationTemplate> = {
+  announcement: {
+    subject: '{{title}}',
+    text: '{{message}}',
+  },
+  'password.changed': {
+    subject: 'Your password was changed',
+    text:
+      'Hi {{name}},\n\nThe password for your account was just changed. ' +
+      'If this was not you, reset your password and contact an administrator.',
+    channels: [EMAIL, IN_APP],
+  },
+  'account.locked': {
+    subject: 'Your account has been locked',
+    text:
+      'Hi {{name}},\n\nYour account was locked after too many failed ' +
+      'sign-in attempts. You can try again after {{lockedUntil}}.\n\n' +
+      'If this was not you, reset your password or contact an administrator.',
+    channels: [EMAIL],
+  },
+};
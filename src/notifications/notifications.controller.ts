@@ -0,0 +1,124 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  HttpCode,
+} from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { NotificationListQueryDto } from './dto/notification-list-query.dto';
+import { DeliveryListQueryDto } from './dto/delivery-list-query.dto';
+import { SendNotificationDto } from './dto/send-notification.dto';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
+import { JwtGuard } from '../common/guards/jwt.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { TwilioSignatureGuard } from '../common/guards/twilio-signature.guard';
+import { Permissions } from '../common/decorators/permissions.decorator';
+import { Public } from '../common/decorators/public.decorator';
+import { CONSTANTS } from '../common/utils/constants';
+
+@Controller('notifications')
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get()
+  @UseGuards(JwtGuard)
+  async findInbox(
+    @Query() query: NotificationListQueryDto,
+    @Request() req: any,
+  ) {
+    const userId = req.user.sub;
+    return this.notificationsService.findInbox(userId, query);
+  }
+
+  @Post()
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.NOTIFICATIONS_MANAGE)
+  async send(@Body() sendNotificationDto: SendNotificationDto) {
+    const { userId, template, variables, channels } = sendNotificationDto;
+    return this.notificationsService.notify(
+      userId,
+      template,
+      variables,
+      channels,
+    );
+  }
+
+  @Get('deliveries')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.NOTIFICATIONS_MANAGE)
+  async findDeliveries(@Query() query: DeliveryListQueryDto) {
+    return this.notificationsService.findDeliveries(query);
+  }
+
+  @Get('deliveries/:id')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.NOTIFICATIONS_MANAGE)
+  async findDelivery(@Param('id') id: string) {
+    return this.notificationsService.findDeliveryById(id);
+  }
+
+  // Twilio status callback. Signed by Twilio instead of a user token, and
+  // the body stays untyped because Twilio adds fields over time
+  @Post('webhooks/twilio/status')
+  @Public()
+  @HttpCode(200)
+  @UseGuards(TwilioSignatureGuard)
+  async twilioStatus(@Body() body: Record<string, string>) {
+    const { MessageSid, MessageStatus, ErrorCode, ErrorMessage } = body;
+
+    if (MessageSid && MessageStatus) {
+      await this.notificationsService.updateDeliveryStatus(
+        MessageSid,
+        MessageStatus,
+        ErrorCode
+          ? `Twilio error ${ErrorCode}: ${ErrorMessage || ''}`.trim()
+          : null,
+      );
+    }
+
+    return { message: 'Status received' };
+  }
+
+  @Get('preferences')
+  @UseGuards(JwtGuard)
+  async getPreferences(@Request() req: any) {
+    const userId = req.user.sub;
+    return this.notificationsService.getPreferences(userId);
+  }
+
+  @Put('preferences')
+  @UseGuards(JwtGuard)
+  async updatePreferences(
+    @Body() updatePreferencesDto: UpdateNotificationPreferencesDto,
+    @Request() req: any,
+  ) {
+    const userId = req.user.sub;
+    return this.notificationsService.updatePreferences(
+      userId,
+      updatePreferencesDto.disabledChannels,
+    );
+  }
+
+  @Post('read-all')
+  @HttpCode(200)
+  @UseGuards(JwtGuard)
+  async markAllRead(@Request() req: any) {
+    const userId = req.user.sub;
+    const updated = await this.notificationsService.markAllRead(userId);
+    return { message: 'Notifications marked as read', updated };
+  }
+
+  @Post(':id/read')
+  @HttpCode(200)
+  @UseGuards(JwtGuard)
+  async markRead(@Param('id') id: string, @Request() req: any) {
+    const userId = req.user.sub;
+    return this.notificationsService.markRead(userId, id);
+  }
+}
@@ -0,0 +1,71 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { Users } from '../users/users.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * In-app inbox entry. Other channels only leave a delivery log row.
+ */
+@Table({
+  tableName: 'notifications',
+  timestamps: true,
+  indexes: [{ fields: ['userId', 'readAt'] }, { fields: ['createdAt'] }],
+})
+export class Notifications extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  userId: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(100),
+  })
+  template: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(255),
+  })
+  title: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.TEXT,
+  })
+  body: string;
+
+  // Template variables, so clients can link to the subject of the message
+  @AllowNull(true)
+  @Column({
+    type: DataType.JSONB,
+  })
+  data: Record<string, unknown>;
+
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  readAt: Date;
+
+  // Relationships
+  @BelongsTo(() => Users, { onDelete: 'CASCADE' })
+  user: Users;
+}
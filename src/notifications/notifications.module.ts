@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../db/database.module';
+import { MailModule } from '../mail/mail.module';
+import { RolesModule } from '../roles/roles.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { NotificationsService } from './notifications.service';
+import { NotificationsController } from './notifications.controller';
+import { notificationsProviders } from './notifications.provider';
+
+@Module({
+  imports: [DatabaseModule, MailModule, RolesModule, JobsModule],
+  providers: [NotificationsService, ...notificationsProviders],
+  controllers: [NotificationsController],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
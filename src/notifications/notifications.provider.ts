@@ -0,0 +1,48 @@
+import { Notifications } from './notifications.entity';
+import { NotificationDeliveries } from './notification-deliveries.entity';
+import { NotificationPreferences } from './notification-preferences.entity';
+import { Users } from '../users/users.entity';
+import { MailService } from '../mail/mail.service';
+import {
+  EmailChannel,
+  InAppChannel,
+  TwilioChannel,
+} from './notification.channel';
+import { notificationsConfig } from '../config/notifications.config';
+import { CONSTANTS } from '../common/utils/constants';
+
+export const notificationsProviders = [
+  {
+    provide: 'NOTIFICATIONS_REPOSITORY',
+    useValue: Notifications,
+  },
+  {
+    provide: 'NOTIFICATION_DELIVERIES_REPOSITORY',
+    useValue: NotificationDeliveries,
+  },
+  {
+    provide: 'NOTIFICATION_PREFERENCES_REPOSITORY',
+    useValue: NotificationPreferences,
+  },
+  {
+    provide: 'USERS_REPOSITORY',
+    useValue: Users,
+  },
+  {
+    provide: 'NOTIFICATION_CHANNELS',
+    inject: [MailService],
+    useFactory: (mailService: MailService) => [
+      new EmailChannel(mailService),
+      new TwilioChannel(
+        CONSTANTS.NOTIFICATION_CHANNELS.WHATSAPP,
+        notificationsConfig.TWILIO_WHATSAPP_FROM,
+        'whatsapp:',
+      ),
+      new TwilioChannel(
+        CONSTANTS.NOTIFICATION_CHANNELS.SMS,
+        notificationsConfig.TWILIO_SMS_FROM,
+      ),
+      new InAppChannel(Notifications),
+    ],
+  },
+];
@@ -0,0 +1,498 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  OnModuleInit,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Op, Transaction, WhereOptions } from 'sequelize';
+import { Users } from '../users/users.entity';
+import { Notifications } from './notifications.entity';
+import { NotificationDeliveries } from './notification-deliveries.entity';
+import { NotificationPreferences } from './notification-preferences.entity';
+import { ChannelMessage, NotificationChannel } from './notification.channel';
+import { Jobs } from '../jobs/jobs.entity';
+import { JobsService } from '../jobs/jobs.service';
+import { NOTIFICATION_TEMPLATES } from './notification.templates';
+import { notificationsConfig } from '../config/notifications.config';
+import { CONSTANTS } from '../common/utils/constants';
+import { QueryUtil } from '../common/utils/query.util';
+import { NotificationListQueryDto } from './dto/notification-list-query.dto';
+import { DeliveryListQueryDto } from './dto/delivery-list-query.dto';
+import { NotificationResponseDto } from './dto/notification-response.dto';
+import { NotificationDeliveryResponseDto } from './dto/notification-delivery-response.dto';
+import { NotificationPreferenceResponseDto } from './dto/notification-preference-response.dto';
+
+interface NotificationJob {
+  userId: string;
+  template: string;
+  variables: Record<string, unknown>;
+  channels?: string[];
+}
+
+// One per delivery row, so a failing channel retries without the others
+interface DeliveryJob {
+  deliveryId: string;
+  variables: Record<string, unknown>;
+}
+
+const { QUEUED, SENT, DELIVERED, READ, FAILED, UNDELIVERED } =
+  CONSTANTS.NOTIFICATION_STATUS;
+const { WHATSAPP, SMS } = CONSTANTS.NOTIFICATION_CHANNELS;
+
+// Twilio MessageStatus values mapped onto delivery log statuses
+const TWILIO_STATUSES: Record<string, string> = {
+  accepted: QUEUED,
+  scheduled: QUEUED,
+  queued: QUEUED,
+  sending: QUEUED,
+  sent: SENT,
+  delivered: DELIVERED,
+  read: READ,
+  undelivered: UNDELIVERED,
+  failed: FAILED,
+  canceled: FAILED,
+};
+
+// Callbacks can arrive out of order, so a status only replaces a lower one
+const STATUS_RANK: Record<string, number> = {
+  [QUEUED]: 0,
+  [SENT]: 1,
+  [DELIVERED]: 2,
+  [UNDELIVERED]: 2,
+  [FAILED]: 2,
+  [READ]: 3,
+};
+
+@Injectable()
+export class NotificationsService implements OnModuleInit {
+  private readonly logger = new Logger('Notifications');
+
+  constructor(
+    @Inject('NOTIFICATION_CHANNELS')
+    private readonly channels: NotificationChannel[],
+    @Inject('NOTIFICATIONS_REPOSITORY')
+    private readonly notificationsRepository: typeof Notifications,
+    @Inject('NOTIFICATION_DELIVERIES_REPOSITORY')
+    private readonly deliveriesRepository: typeof NotificationDeliveries,
+    @Inject('NOTIFICATION_PREFERENCES_REPOSITORY')
+    private readonly preferencesRepository: typeof NotificationPreferences,
+    @Inject('USERS_REPOSITORY')
+    private readonly usersRepository: typeof Users,
+    private readonly jobsService: JobsService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobsService.register(
+      'notification.send',
+      async (payload: NotificationJob) => {
+        await this.notify(
+          payload.userId,
+          payload.template,
+          payload.variables,
+          payload.channels,
+        );
+      },
+    );
+    this.jobsService.register(
+      'notification.deliver',
+      (payload: DeliveryJob, job: Jobs) =>
+        this.deliver(payload.deliveryId, payload.variables, job),
+    );
+  }
+
+  /**
+   * Queues a notification to be sent by the job worker once the given
+   * transaction commits, keeping providers out of the request path.
+   */
+  async queue(
+    userId: string,
+    templateName: string,
+    variables: Record<string, unknown> = {},
+    options: { channels?: string[]; transaction?: Transaction } = {},
+  ): Promise<void> {
+    const payload: NotificationJob = {
+      userId,
+      template: templateName,
+      variables,
+      channels: options.channels,
+    };
+    await this.jobsService.enqueue('notification.send', payload, {
+      transaction: options.transaction,
+    });
+  }
+
+  /**
+   * Records a queued delivery for every selected channel the user has not
+   * opted out of and has an address for, and hands each to the job worker.
+   * A failed delivery is retried on its own, so other channels are never
+   * sent twice.
+   */
+  async notify(
+    userId: string,
+    templateName: string,
+    variables: Record<string, unknown> = {},
+    channels?: string[],
+  ): Promise<NotificationDeliveryResponseDto[]> {
+    const template = NOTIFICATION_TEMPLATES[templateName];
+    if (!template) {
+      throw new BadRequestException(
+        `Unknown notification template "${templateName}"`,
+      );
+    }
+
+    const user = await this.usersRepository.findByPk(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const disabled = await this.getDisabledChannels(userId);
+    const selected =
+      channels || template.channels || notificationsConfig.DEFAULT_CHANNELS;
+
+    const deliveries = await this.deliveriesRepository.sequelize!.transaction(
+      async (transaction) => {
+        const created: NotificationDeliveries[] = [];
+        for (const channel of this.channels) {
+          if (!selected.includes(channel.name) || disabled.has(channel.name)) {
+            continue;
+          }
+
+          const recipient = channel.recipient(user);
+          if (!recipient) {
+            continue;
+          }
+
+          const delivery = await this.deliveriesRepository.create(
+            {
+              userId,
+              channel: channel.name,
+              template: templateName,
+              recipient,
+              status: QUEUED,
+            },
+            { transaction },
+          );
+          const payload: DeliveryJob = { deliveryId: delivery.id, variables };
+          await this.jobsService.enqueue('notification.deliver', payload, {
+            transaction,
+          });
+          created.push(delivery);
+        }
+        return created;
+      },
+    );
+
+    return deliveries.map((delivery) => this.toDeliveryDto(delivery));
+  }
+
+  // The user's in-app inbox, newest first
+  async findInbox(userId: string, query: NotificationListQueryDto) {
+    const { offset, limit } = QueryUtil.paginate(query);
+    let read: WhereOptions | undefined;
+    if (query.unread !== undefined) {
+      read = { readAt: query.unread ? null : { [Op.ne]: null } };
+    }
+
+    const { count, rows } = await this.notificationsRepository.findAndCountAll({
+      where: QueryUtil.and(
+        { userId },
+        QueryUtil.search(['title', 'body'], query.search),
+        read,
+        QueryUtil.createdAtRange(query),
+      ),
+      offset,
+      limit,
+      order: QueryUtil.order(query.sort, ['createdAt', 'readAt']),
+    });
+    const unread = await this.notificationsRepository.count({
+      where: { userId, readAt: null },
+    });
+
+    return {
+      data: rows.map((notification) => this.toResponseDto(notification)),
+      total: count,
+      unread,
+      page: query.page,
+      limit,
+      pages: Math.ceil(count / limit),
+    };
+  }
+
+  async markRead(userId: string, id: string): Promise<NotificationResponseDto> {
+    const notification = await this.notificationsRepository.findOne({
+      where: { id, userId },
+    });
+
+    if (!notification) {
+      throw new NotFoundException('Notification not found');
+    }
+
+    if (!notification.readAt) {
+      await notification.update({ readAt: new Date() });
+    }
+
+    return this.toResponseDto(notification);
+  }
+
+  async markAllRead(userId: string): Promise<number> {
+    const [affected] = await this.notificationsRepository.update(
+      { readAt: new Date() },
+      { where: { userId, readAt: null } },
+    );
+
+    return affected;
+  }
+
+  async getPreferences(
+    userId: string,
+  ): Promise<NotificationPreferenceResponseDto[]> {
+    const disabled = await this.getDisabledChannels(userId);
+
+    return this.channels.map((channel) => ({
+      channel: channel.name,
+      enabled: !disabled.has(channel.name),
+    }));
+  }
+
+  async updatePreferences(
+    userId: string,
+    disabledChannels: string[],
+  ): Promise<NotificationPreferenceResponseDto[]> {
+    await this.preferencesRepository.sequelize!.transaction(
+      async (transaction) => {
+        for (const channel of this.channels) {
+          const enabled = !disabledChannels.includes(channel.name);
+          const [preference] = await this.preferencesRepository.findOrCreate({
+            where: { userId, channel: channel.name },
+            defaults: { enabled },
+            transaction,
+          });
+          if (preference.enabled !== enabled) {
+            await preference.update({ enabled }, { transaction });
+          }
+        }
+      },
+    );
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Applies a Twilio status callback to the delivery it refers to.
+   * Repeated and stale callbacks leave the row untouched, so providers
+   * may retry freely. Returns whether the delivery changed.
+   */
+  async updateDeliveryStatus(
+    providerMessageId: string,
+    providerStatus: string,
+    error?: string | null,
+  ): Promise<boolean> {
+    const status = TWILIO_STATUSES[providerStatus];
+    if (!status) {
+      this.logger.warn(
+        `Ignored unknown status "${providerStatus}" for message ${providerMessageId}`,
+      );
+      return false;
+    }
+
+    const lower = Object.keys(STATUS_RANK).filter(
+      (candidate) => STATUS_RANK[candidate] < STATUS_RANK[status],
+    );
+    const [affected] = await this.deliveriesRepository.update(
+      {
+        status,
+        statusUpdatedAt: new Date(),
+        ...(error ? { error } : {}),
+      },
+      {
+        where: {
+          providerMessageId,
+          channel: { [Op.in]: [WHATSAPP, SMS] },
+          status: { [Op.in]: lower },
+        },
+      },
+    );
+
+    if (affected === 0) {
+      const exists = await this.deliveriesRepository.count({
+        where: { providerMessageId },
+      });
+      if (!exists) {
+        this.logger.warn(
+          `Status callback for unknown message ${providerMessageId}`,
+        );
+      }
+    }
+
+    return affected > 0;
+  }
+
+  async findDeliveryById(id: string): Promise<NotificationDeliveryResponseDto> {
+    const delivery = await this.deliveriesRepository.findByPk(id);
+
+    if (!delivery) {
+      throw new NotFoundException('Delivery not found');
+    }
+
+    return this.toDeliveryDto(delivery);
+  }
+
+  // Admin view of the delivery log
+  async findDeliveries(query: DeliveryListQueryDto) {
+    const { offset, limit } = QueryUtil.paginate(query);
+
+    const { count, rows } = await this.deliveriesRepository.findAndCountAll({
+      where: QueryUtil.and(
+        QueryUtil.search(['recipient', 'template'], query.search),
+        query.userId ? { userId: query.userId } : undefined,
+        query.channel ? { channel: query.channel } : undefined,
+        query.status ? { status: query.status } : undefined,
+        query.template ? { template: query.template } : undefined,
+        query.providerMessageId
+          ? { providerMessageId: query.providerMessageId }
+          : undefined,
+        QueryUtil.createdAtRange(query),
+      ),
+      offset,
+      limit,
+      order: QueryUtil.order(query.sort, [
+        'createdAt',
+        'statusUpdatedAt',
+        'channel',
+        'status',
+      ]),
+    });
+
+    return {
+      data: rows.map((delivery) => this.toDeliveryDto(delivery)),
+      total: count,
+      page: query.page,
+      limit,
+      pages: Math.ceil(count / limit),
+    };
+  }
+
+  /**
+   * Sends one queued delivery. Failures are recorded on the row and
+   * rethrown so the job queue retries; the row only turns failed once the
+   * last attempt has failed.
+   */
+  private async deliver(
+    deliveryId: string,
+    variables: Record<string, unknown>,
+    job: Jobs,
+  ): Promise<void> {
+    const delivery = await this.deliveriesRepository.findByPk(deliveryId, {
+      include: [Users],
+    });
+
+    // Removed along with its user, or already handed to the provider
+    if (!delivery || delivery.status !== QUEUED || delivery.providerMessageId) {
+      return;
+    }
+
+    const channel = this.channels.find(
+      (candidate) => candidate.name === delivery.channel,
+    );
+    if (!channel) {
+      await delivery.update({
+        status: FAILED,
+        error: `Channel "${delivery.channel}" is not available`,
+        statusUpdatedAt: new Date(),
+      });
+      return;
+    }
+
+    try {
+      const result = await channel.send(
+        this.compose(delivery.user, delivery.template, variables),
+      );
+      await delivery.update({
+        status: result.status,
+        providerMessageId: result.providerMessageId || null,
+        error: null,
+        statusUpdatedAt: new Date(),
+      });
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.warn(
+        `${channel.name} delivery ${delivery.id} failed: ${message}`,
+      );
+      await delivery.update({
+        status: job.attempts >= job.maxAttempts ? FAILED : QUEUED,
+        error: message,
+        statusUpdatedAt: new Date(),
+      });
+      throw error;
+    }
+  }
+
+  private compose(
+    user: Users,
+    templateName: string,
+    variables: Record<string, unknown>,
+  ): ChannelMessage {
+    const template = NOTIFICATION_TEMPLATES[templateName];
+    const data = { name: user.name || user.email, ...variables };
+
+    return {
+      user,
+      template: templateName,
+      subject: this.render(template.subject, data),
+      text: this.render(template.text, data),
+      data,
+    };
+  }
+
+  private async getDisabledChannels(userId: string): Promise<Set<string>> {
+    const preferences = await this.preferencesRepository.findAll({
+      where: { userId, enabled: false },
+    });
+
+    return new Set(preferences.map((preference) => preference.channel));
+  }
+
+  // Unknown placeholders render as empty strings
+  private render(text: string, data: Record<string, unknown>): string {
+    return text.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+      const value = data[key];
+      if (value === undefined || value === null) {
+        return '';
+      }
+      return typeof value === 'object'
+        ? JSON.stringify(value)
+        : `${value as string}`;
+    });
+  }
+
+  private toResponseDto(notification: Notifications): NotificationResponseDto {
+    return {
+      id: notification.id,
+      template: notification.template,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data,
+      readAt: notification.readAt,
+      createdAt: notification.createdAt,
+    };
+  }
+
+  private toDeliveryDto(
+    delivery: NotificationDeliveries,
+  ): NotificationDeliveryResponseDto {
+    return {
+      id: delivery.id,
+      userId: delivery.userId,
+      channel: delivery.channel,
+      template: delivery.template,
+      recipient: delivery.recipient,
+      status: delivery.status,
+      providerMessageId: delivery.providerMessageId,
+      error: delivery.error,
+      statusUpdatedAt: delivery.statusUpdatedAt,
+      createdAt: delivery.createdAt,
+    };
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { UsersModule } from '../users/users.module';
+import { SchoolsModule } from '../schools/schools.module';
+import { RetentionService } from './retention.service';
+
+@Module({
+  imports: [UsersModule, SchoolsModule],
+  providers: [RetentionService],
+})
+export class RetentionModule {}
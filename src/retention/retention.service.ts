@@ -0,0 +1,70 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { UsersService } from '../users/users.service';
+import { SchoolsService } from '../schools/schools.service';
+import { appConfig } from '../config/app.config';
+
+/**
+ * Hard-deletes users and schools that have sat in the trash longer than
+ * TRASH_RETENTION_DAYS. Runs on startup and then on a fixed interval.
+ */
+@Injectable()
+export class RetentionService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger('Retention');
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly schoolsService: SchoolsService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    this.timer = setInterval(
+      () => void this.purge(),
+      appConfig.TRASH_PURGE_INTERVAL,
+    );
+    // Do not keep the process alive just for the purge timer
+    this.timer.unref();
+
+    void this.purge();
+  }
+
+  onApplicationShutdown(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async purge(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    const before = new Date(
+      Date.now() - appConfig.TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    try {
+      // Schools first, since they reference their admin user
+      const schools = await this.schoolsService.purgeDeleted(before);
+      const users = await this.usersService.purgeDeleted(before);
+
+      if (schools > 0 || users > 0) {
+        this.logger.log(`Purged ${schools} school(s) and ${users} user(s)`);
+      }
+    } catch (error) {
+      this.logger.error('Trash purge failed', (error as Error).stack);
+    } finally {
+      this.running = false;
+    }
+  }
+}
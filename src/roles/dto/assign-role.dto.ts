@@ -0,0 +1,10 @@
+import { IsString, IsOptional, IsUUID } from 'class-validator';
+
+export class AssignRoleDto {
+  @IsString()
+  role: string;
+
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+}
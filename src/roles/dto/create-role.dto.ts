@@ -0,0 +1,27 @@
+import {
+  IsString,
+  IsOptional,
+  IsArray,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateRoleDto {
+  @IsString()
+  @Matches(/^[a-z][a-z0-9_-]*$/, {
+    message:
+      'Role name must be lowercase letters, numbers, dashes or underscores',
+  })
+  @MaxLength(50)
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  description?: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  permissions?: string[] = [];
+}
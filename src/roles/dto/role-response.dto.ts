@@ -0,0 +1,9 @@
+export class RoleResponseDto {
+  id: string;
+  name: string;
+  description: string;
+  isSystem: boolean;
+  permissions: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,13 @@
+import { IsString, IsOptional, IsArray, MaxLength } from 'class-validator';
+
+export class UpdateRoleDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  description?: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  permissions?: string[];
+}
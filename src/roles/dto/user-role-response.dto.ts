@@ -0,0 +1,6 @@
+export class UserRoleResponseDto {
+  id: string;
+  role: string;
+  schoolId: string | null;
+  createdAt: Date;
+}
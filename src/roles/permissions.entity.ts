@@ -0,0 +1,31 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Unique,
+} from 'sequelize-typescript';
+import { v4 as uuidv4 } from 'uuid';
+
+@Table({
+  tableName: 'permissions',
+  timestamps: true,
+  indexes: [{ fields: ['key'], unique: true }],
+})
+export class Permissions extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  // "<resource>:<action>", e.g. "schools:update"
+  @AllowNull(false)
+  @Unique
+  @Column({
+    type: DataType.STRING(100),
+  })
+  key: string;
+}
@@ -0,0 +1,29 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+} from 'sequelize-typescript';
+import { Roles } from './roles.entity';
+import { Permissions } from './permissions.entity';
+
+@Table({
+  tableName: 'role_permissions',
+  timestamps: false,
+})
+export class RolePermissions extends Model {
+  @ForeignKey(() => Roles)
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+  })
+  roleId: string;
+
+  @ForeignKey(() => Permissions)
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+  })
+  permissionId: string;
+}
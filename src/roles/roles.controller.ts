@@ -0,0 +1,67 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+} from '@nestjs/common';
+import { RolesService } from './roles.service';
+import { Roles } from './roles.entity';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
+import { JwtGuard } from '../common/guards/jwt.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { Permissions } from '../common/decorators/permissions.decorator';
+import { Audit } from '../common/decorators/audit.decorator';
+import { CONSTANTS } from '../common/utils/constants';
+
+@Controller('roles')
+@UseGuards(JwtGuard, PermissionsGuard)
+export class RolesController {
+  constructor(private readonly rolesService: RolesService) {}
+
+  @Get()
+  @Permissions(CONSTANTS.PERMISSIONS.ROLES_MANAGE)
+  async findAll() {
+    return this.rolesService.findAll();
+  }
+
+  @Get('permissions')
+  @Permissions(CONSTANTS.PERMISSIONS.ROLES_MANAGE)
+  async findAllPermissions() {
+    return this.rolesService.findAllPermissions();
+  }
+
+  @Get(':id')
+  @Permissions(CONSTANTS.PERMISSIONS.ROLES_MANAGE)
+  async findOne(@Param('id') id: string) {
+    return this.rolesService.findById(id);
+  }
+
+  @Post()
+  @Permissions(CONSTANTS.PERMISSIONS.ROLES_MANAGE)
+  @HttpCode(201)
+  @Audit('role.create', 'role', { model: Roles })
+  async create(@Body() createRoleDto: CreateRoleDto) {
+    return this.rolesService.create(createRoleDto);
+  }
+
+  @Put(':id')
+  @Permissions(CONSTANTS.PERMISSIONS.ROLES_MANAGE)
+  @Audit('role.update', 'role', { model: Roles })
+  async update(@Param('id') id: string, @Body() updateRoleDto: UpdateRoleDto) {
+    return this.rolesService.update(id, updateRoleDto);
+  }
+
+  @Delete(':id')
+  @Permissions(CONSTANTS.PERMISSIONS.ROLES_MANAGE)
+  @Audit('role.delete', 'role', { model: Roles })
+  async delete(@Param('id') id: string) {
+    await this.rolesService.delete(id);
+    return { message: 'Role deleted successfully' };
+  }
+}
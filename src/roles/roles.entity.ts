@@ -0,0 +1,51 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  Unique,
+  BelongsToMany,
+} from 'sequelize-typescript';
+import { v4 as uuidv4 } from 'uuid';
+import { Permissions } from './permissions.entity';
+import { RolePermissions } from './role-permissions.entity';
+
+@Table({
+  tableName: 'roles',
+  timestamps: true,
+  indexes: [{ fields: ['name'], unique: true }],
+})
+export class Roles extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @Unique
+  @Column({
+    type: DataType.STRING(50),
+  })
+  name: string;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.TEXT,
+  })
+  description: string;
+
+  // Built-in roles (admin, user) cannot be renamed or deleted
+  @Default(false)
+  @Column({
+    type: DataType.BOOLEAN,
+  })
+  isSystem: boolean;
+
+  // Relationships
+  @BelongsToMany(() => Permissions, () => RolePermissions)
+  permissions: Permissions[];
+}
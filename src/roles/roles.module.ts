@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../db/database.module';
+import { AuditModule } from '../audit/audit.module';
+import { RolesService } from './roles.service';
+import { RolesController } from './roles.controller';
+import { rolesProviders } from './roles.provider';
+
+@Module({
+  imports: [DatabaseModule, AuditModule],
+  providers: [RolesService, ...rolesProviders],
+  controllers: [RolesController],
+  exports: [RolesService],
+})
+export class RolesModule {}
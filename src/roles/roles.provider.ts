@@ -0,0 +1,23 @@
+import { Roles } from './roles.entity';
+import { Permissions } from './permissions.entity';
+import { UserRoles } from './user-roles.entity';
+import { Users } from '../users/users.entity';
+
+export const rolesProviders = [
+  {
+    provide: 'ROLES_REPOSITORY',
+    useValue: Roles,
+  },
+  {
+    provide: 'PERMISSIONS_REPOSITORY',
+    useValue: Permissions,
+  },
+  {
+    provide: 'USER_ROLES_REPOSITORY',
+    useValue: UserRoles,
+  },
+  {
+    provide: 'USERS_REPOSITORY',
+    useValue: Users,
+  },
+];
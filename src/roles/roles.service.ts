@@ -0,0 +1,293 @@
+import {
+  Injectable,
+  Inject,
+  OnModuleInit,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Op } from 'sequelize';
+import { Roles } from './roles.entity';
+import { Permissions } from './permissions.entity';
+import { UserRoles } from './user-roles.entity';
+import { Users } from '../users/users.entity';
+import { CONSTANTS } from '../common/utils/constants';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
+import { AssignRoleDto } from './dto/assign-role.dto';
+import { RoleResponseDto } from './dto/role-response.dto';
+import { UserRoleResponseDto } from './dto/user-role-response.dto';
+
+/**
+ * A user's effective roles are their base `Users.role` plus any rows in
+ * user_roles. Global assignments (no schoolId) apply everywhere; scoped
+ * ones only when the request targets that school.
+ */
+@Injectable()
+export class RolesService implements OnModuleInit {
+  constructor(
+    @Inject('ROLES_REPOSITORY')
+    private readonly rolesRepository: typeof Roles,
+    @Inject('PERMISSIONS_REPOSITORY')
+    private readonly permissionsRepository: typeof Permissions,
+    @Inject('USER_ROLES_REPOSITORY')
+    private readonly userRolesRepository: typeof UserRoles,
+    @Inject('USERS_REPOSITORY')
+    private readonly usersRepository: typeof Users,
+  ) {}
+
+  // Make sure the permission catalogue and built-in roles exist
+  async onModuleInit(): Promise<void> {
+    const keys = Object.values(CONSTANTS.PERMISSIONS);
+    for (const key of keys) {
+      await this.permissionsRepository.findOrCreate({ where: { key } });
+    }
+
+    const [admin] = await this.rolesRepository.findOrCreate({
+      where: { name: CONSTANTS.USER_ROLES.ADMIN },
+      defaults: { description: 'Full access', isSystem: true },
+    });
+    await admin.$set('permissions', await this.findPermissions(keys));
+
+    await this.rolesRepository.findOrCreate({
+      where: { name: CONSTANTS.USER_ROLES.USER },
+      defaults: {
+        description: 'Default role for new accounts',
+        isSystem: true,
+      },
+    });
+  }
+
+  async findAll(): Promise<RoleResponseDto[]> {
+    const roles = await this.rolesRepository.findAll({
+      include: [Permissions],
+      order: [['name', 'ASC']],
+    });
+
+    return roles.map((role) => this.toResponseDto(role));
+  }
+
+  async findById(id: string): Promise<RoleResponseDto> {
+    const role = await this.rolesRepository.findByPk(id, {
+      include: [Permissions],
+    });
+
+    if (!role) {
+      throw new NotFoundException('Role not found');
+    }
+
+    return this.toResponseDto(role);
+  }
+
+  async findAllPermissions(): Promise<string[]> {
+    const permissions = await this.permissionsRepository.findAll({
+      order: [['key', 'ASC']],
+    });
+
+    return permissions.map((permission) => permission.key);
+  }
+
+  async create(createRoleDto: CreateRoleDto): Promise<RoleResponseDto> {
+    const existingRole = await this.rolesRepository.findOne({
+      where: { name: createRoleDto.name },
+    });
+
+    if (existingRole) {
+      throw new ConflictException('Role with this name already exists');
+    }
+
+    const permissions = await this.findPermissions(
+      createRoleDto.permissions || [],
+    );
+    const role = await this.rolesRepository.create({
+      name: createRoleDto.name,
+      description: createRoleDto.description,
+    });
+    await role.$set('permissions', permissions);
+
+    return this.findById(role.id);
+  }
+
+  async update(
+    id: string,
+    updateRoleDto: UpdateRoleDto,
+  ): Promise<RoleResponseDto> {
+    const role = await this.rolesRepository.findByPk(id);
+
+    if (!role) {
+      throw new NotFoundException('Role not found');
+    }
+
+    if (updateRoleDto.description !== undefined) {
+      await role.update({ description: updateRoleDto.description });
+    }
+
+    if (updateRoleDto.permissions) {
+      if (role.isSystem) {
+        throw new ForbiddenException(
+          'Permissions of built-in roles cannot be changed',
+        );
+      }
+      await role.$set(
+        'permissions',
+        await this.findPermissions(updateRoleDto.permissions),
+      );
+    }
+
+    return this.findById(role.id);
+  }
+
+  async delete(id: string): Promise<void> {
+    const role = await this.rolesRepository.findByPk(id);
+
+    if (!role) {
+      throw new NotFoundException('Role not found');
+    }
+
+    if (role.isSystem) {
+      throw new ForbiddenException('Built-in roles cannot be deleted');
+    }
+
+    await this.userRolesRepository.destroy({ where: { roleId: id } });
+    await role.destroy();
+  }
+
+  async findUserRoles(userId: string): Promise<UserRoleResponseDto[]> {
+    const assignments = await this.userRolesRepository.findAll({
+      where: { userId },
+      include: [Roles],
+      order: [['createdAt', 'ASC']],
+    });
+
+    return assignments.map((assignment) =>
+      this.toUserRoleResponseDto(assignment),
+    );
+  }
+
+  async assignRole(
+    userId: string,
+    assignRoleDto: AssignRoleDto,
+  ): Promise<UserRoleResponseDto> {
+    const role = await this.rolesRepository.findOne({
+      where: { name: assignRoleDto.role },
+    });
+
+    if (!role) {
+      throw new BadRequestException(`Unknown role: ${assignRoleDto.role}`);
+    }
+
+    const where = {
+      userId,
+      roleId: role.id,
+      schoolId: assignRoleDto.schoolId || null,
+    };
+    const [assignment] = await this.userRolesRepository.findOrCreate({
+      where,
+      defaults: where,
+    });
+    assignment.role = role;
+
+    return this.toUserRoleResponseDto(assignment);
+  }
+
+  async removeRole(userId: string, assignmentId: string): Promise<void> {
+    const deleted = await this.userRolesRepository.destroy({
+      where: { id: assignmentId, userId },
+    });
+
+    if (deleted === 0) {
+      throw new NotFoundException('Role assignment not found');
+    }
+  }
+
+  /**
+   * Names of the roles that apply to the user outside any school.
+   */
+  async getRoleNames(userId: string, baseRole?: string): Promise<string[]> {
+    const assignments = await this.userRolesRepository.findAll({
+      where: { userId, schoolId: null },
+      include: [Roles],
+    });
+
+    const names = assignments.map((assignment) => assignment.role.name);
+    if (baseRole) {
+      names.unshift(baseRole);
+    }
+
+    return [...new Set(names)];
+  }
+
+  async hasPermissions(
+    userId: string,
+    keys: string[],
+    schoolId?: string,
+  ): Promise<boolean> {
+    const user = await this.usersRepository.findByPk(userId, {
+      attributes: ['id', 'role', 'isActive'],
+    });
+    if (!user || !user.isActive) {
+      return false;
+    }
+
+    const assignments = await this.userRolesRepository.findAll({
+      where: {
+        userId,
+        schoolId: schoolId ? { [Op.or]: [null, schoolId] } : null,
+      },
+      attributes: ['roleId'],
+    });
+
+    const roles = await this.rolesRepository.findAll({
+      where: {
+        [Op.or]: [
+          { name: user.role },
+          { id: assignments.map((assignment) => assignment.roleId) },
+        ],
+      },
+      include: [Permissions],
+    });
+
+    const granted = new Set(
+      roles.flatMap((role) => role.permissions.map((p) => p.key)),
+    );
+    return keys.every((key) => granted.has(key));
+  }
+
+  private async findPermissions(keys: string[]): Promise<Permissions[]> {
+    const permissions = await this.permissionsRepository.findAll({
+      where: { key: keys },
+    });
+
+    if (permissions.length !== new Set(keys).size) {
+      const known = new Set(permissions.map((p) => p.key));
+      const unknown = keys.filter((key) => !known.has(key));
+      throw new BadRequestException(
+        `Unknown permissions: ${unknown.join(', ')}`,
+      );
+    }
+
+    return permissions;
+  }
+
+  private toResponseDto(role: Roles): RoleResponseDto {
+    return {
+      id: role.id,
+      name: role.name,
+      description: role.description,
+      isSystem: role.isSystem,
+      permissions: (role.permissions || []).map((p) => p.key).sort(),
+      createdAt: role.createdAt,
+      updatedAt: role.updatedAt,
+    };
+  }
+
+  private toUserRoleResponseDto(assignment: UserRoles): UserRoleResponseDto {
+    return {
+      id: assignment.id,
+      role: assignment.role?.name,
+      schoolId: assignment.schoolId || null,
+      createdAt: assignment.createdAt,
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { v4 as uuidv4 } from 'uuid';
+import { Users } from '../users/users.entity';
+import { Schools } from '../schools/schools.entity';
+import { Roles } from './roles.entity';
+
+@Table({
+  tableName: 'user_roles',
+  timestamps: true,
+  indexes: [
+    { fields: ['userId'] },
+    { fields: ['roleId'] },
+    { fields: ['schoolId'] },
+  ],
+})
+export class UserRoles extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  userId: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Roles)
+  @Column({
+    type: DataType.UUID,
+  })
+  roleId: string;
+
+  // Null for a global assignment, otherwise the role only applies here
+  @AllowNull(true)
+  @ForeignKey(() => Schools)
+  @Column({
+    type: DataType.UUID,
+  })
+  schoolId: string;
+
+  // Relationships
+  @BelongsTo(() => Users, { onDelete: 'CASCADE' })
+  user: Users;
+
+  @BelongsTo(() => Roles)
+  role: Roles;
+
+  @BelongsTo(() => Schools, { onDelete: 'CASCADE' })
+  school: Schools;
+}
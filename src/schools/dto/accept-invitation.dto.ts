@@ -0,0 +1,15 @@
+import { IsString, IsOptional } from 'class-validator';
+
+export class AcceptInvitationDto {
+  @IsString()
+  token: string;
+
+  // Only required when the invited email has no account yet
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  password?: string;
+}
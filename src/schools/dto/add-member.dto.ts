@@ -0,0 +1,12 @@
+import { IsUUID, IsIn } from 'class-validator';
+import { CONSTANTS } from '../../common/utils/constants';
+
+export class AddMemberDto {
+  @IsUUID()
+  userId: string;
+
+  @IsIn(Object.values(CONSTANTS.SCHOOL_ROLES), {
+    message: 'Role must be one of: admin, staff, teacher, student',
+  })
+  role: string;
+}
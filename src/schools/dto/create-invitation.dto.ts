@@ -0,0 +1,18 @@
+import { IsEmail, IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { CONSTANTS } from '../../common/utils/constants';
+
+export class CreateInvitationDto {
+  @IsEmail({}, { message: 'Email must be valid' })
+  email: string;
+
+  @IsIn(Object.values(CONSTANTS.SCHOOL_ROLES), {
+    message: 'Role must be one of: admin, staff, teacher, student',
+  })
+  role: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  @IsOptional()
+  expiresInDays?: number;
+}
@@ -0,0 +1,12 @@
+export class InvitationResponseDto {
+  id: string;
+  schoolId: string;
+  email: string;
+  role: string;
+  invitedById: string | null;
+  status: string;
+  expiresAt: Date;
+  acceptedAt: Date;
+  revokedAt: Date;
+  createdAt: Date;
+}
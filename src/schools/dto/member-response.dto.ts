@@ -0,0 +1,14 @@
+export class MemberResponseDto {
+  id: string;
+  schoolId: string;
+  userId: string;
+  role: string;
+  isOwner: boolean;
+  user: {
+    id: string;
+    email: string;
+    name: string;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
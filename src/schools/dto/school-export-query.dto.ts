@@ -0,0 +1,11 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { SchoolListQueryDto } from './school-list-query.dto';
+import { ExportUtil } from '../../common/utils/export.util';
+
+export class SchoolExportQueryDto extends SchoolListQueryDto {
+  @IsIn(ExportUtil.FORMATS, {
+    message: `Format must be one of: ${ExportUtil.FORMATS.join(', ')}`,
+  })
+  @IsOptional()
+  format: string = 'csv';
+}
@@ -0,0 +1,8 @@
+import { IsOptional, IsUUID } from 'class-validator';
+import { ListQueryDto } from '../../common/dto/list-query.dto';
+
+export class SchoolListQueryDto extends ListQueryDto {
+  @IsUUID()
+  @IsOptional()
+  adminId?: string;
+}
@@ -13,4 +13,5 @@ export class SchoolResponseDto {
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date;
 }
@@ -0,0 +1,9 @@
+import { IsIn } from 'class-validator';
+import { CONSTANTS } from '../../common/utils/constants';
+
+export class UpdateMemberDto {
+  @IsIn(Object.values(CONSTANTS.SCHOOL_ROLES), {
+    message: 'Role must be one of: admin, staff, teacher, student',
+  })
+  role: string;
+}
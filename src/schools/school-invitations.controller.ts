@@ -0,0 +1,96 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  HttpCode,
+} from '@nestjs/common';
+import { SchoolInvitationsService } from './school-invitations.service';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+import { SchoolInvitations } from './school-invitations.entity';
+import { SchoolMembers } from './school-members.entity';
+import { JwtGuard } from '../common/guards/jwt.guard';
+import { Audit } from '../common/decorators/audit.decorator';
+
+@Controller()
+export class SchoolInvitationsController {
+  constructor(
+    private readonly schoolInvitationsService: SchoolInvitationsService,
+  ) {}
+
+  @Get('schools/:schoolId/invitations')
+  @UseGuards(JwtGuard)
+  async findPending(
+    @Param('schoolId') schoolId: string,
+    @Request() req: any,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 10,
+  ) {
+    return this.schoolInvitationsService.findPending(
+      schoolId,
+      req.user.sub,
+      page,
+      limit,
+    );
+  }
+
+  @Post('schools/:schoolId/invitations')
+  @UseGuards(JwtGuard)
+  @HttpCode(201)
+  @Audit('invitation.create', 'school_invitation', {
+    model: SchoolInvitations,
+  })
+  async create(
+    @Param('schoolId') schoolId: string,
+    @Body() createInvitationDto: CreateInvitationDto,
+    @Request() req: any,
+  ) {
+    return this.schoolInvitationsService.create(
+      schoolId,
+      createInvitationDto,
+      req.user.sub,
+    );
+  }
+
+  @Post('schools/:schoolId/invitations/:id/resend')
+  @UseGuards(JwtGuard)
+  @HttpCode(200)
+  @Audit('invitation.resend', 'school_invitation', {
+    model: SchoolInvitations,
+  })
+  async resend(
+    @Param('schoolId') schoolId: string,
+    @Param('id') id: string,
+    @Request() req: any,
+  ) {
+    return this.schoolInvitationsService.resend(schoolId, id, req.user.sub);
+  }
+
+  @Delete('schools/:schoolId/invitations/:id')
+  @UseGuards(JwtGuard)
+  @Audit('invitation.revoke', 'school_invitation', {
+    model: SchoolInvitations,
+  })
+  async revoke(
+    @Param('schoolId') schoolId: string,
+    @Param('id') id: string,
+    @Request() req: any,
+  ) {
+    await this.schoolInvitationsService.revoke(schoolId, id, req.user.sub);
+    return { message: 'Invitation revoked successfully' };
+  }
+
+  // Recorded against the membership the invitation grants
+  @Post('invitations/accept')
+  @HttpCode(200)
+  @Audit('invitation.accept', 'school_member', { model: SchoolMembers })
+  async accept(@Body() acceptInvitationDto: AcceptInvitationDto) {
+    return this.schoolInvitationsService.accept(acceptInvitationDto);
+  }
+}
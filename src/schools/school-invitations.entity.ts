@@ -0,0 +1,99 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { Users } from '../users/users.entity';
+import { Schools } from './schools.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+@Table({
+  tableName: 'school_invitations',
+  timestamps: true,
+  indexes: [
+    { fields: ['schoolId'] },
+    { fields: ['email'] },
+    { fields: ['tokenHash'], unique: true },
+    { fields: ['expiresAt'] },
+  ],
+})
+export class SchoolInvitations extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Schools)
+  @Column({
+    type: DataType.UUID,
+  })
+  schoolId: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(255),
+  })
+  email: string;
+
+  // School role granted on acceptance, one of CONSTANTS.SCHOOL_ROLES
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(50),
+  })
+  role: string;
+
+  // SHA-256 of the signed token; replaced on every resend
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(64),
+  })
+  tokenHash: string;
+
+  // Cleared when the inviting account is purged
+  @AllowNull(true)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  invitedById: string | null;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.DATE,
+  })
+  expiresAt: Date;
+
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  acceptedAt: Date;
+
+  @Default(null)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  acceptedById: string;
+
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  revokedAt: Date;
+
+  // Relationships
+  @BelongsTo(() => Schools, { onDelete: 'CASCADE' })
+  school: Schools;
+
+  @BelongsTo(() => Users, { foreignKey: 'invitedById', onDelete: 'SET NULL' })
+  invitedBy: Users;
+}
@@ -0,0 +1,401 @@
+import {
+  Injectable,
+  Inject,
+  OnModuleInit,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import * as jwt from 'jsonwebtoken';
+import * as crypto from 'crypto';
+import { Op, Transaction } from 'sequelize';
+import { UsersService } from '../users/users.service';
+import { PasswordPolicyService } from '../users/password-policy.service';
+import { MailService } from '../mail/mail.service';
+import { JobsService } from '../jobs/jobs.service';
+import { appConfig } from '../config/app.config';
+import { authConfig } from '../config/auth.config';
+import { securityConfig } from '../config/security.config';
+import { Schools } from './schools.entity';
+import { SchoolMembers } from './school-members.entity';
+import { SchoolInvitations } from './school-invitations.entity';
+import { SchoolMembersService } from './school-members.service';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+import { InvitationResponseDto } from './dto/invitation-response.dto';
+import { MemberResponseDto } from './dto/member-response.dto';
+
+@Injectable()
+export class SchoolInvitationsService implements OnModuleInit {
+  constructor(
+    @Inject('SCHOOL_INVITATIONS_REPOSITORY')
+    private readonly invitationsRepository: typeof SchoolInvitations,
+    @Inject('SCHOOL_MEMBERS_REPOSITORY')
+    private readonly schoolMembersRepository: typeof SchoolMembers,
+    private readonly schoolMembersService: SchoolMembersService,
+    private readonly usersService: UsersService,
+    private readonly passwordPolicyService: PasswordPolicyService,
+    private readonly mailService: MailService,
+    private readonly jobsService: JobsService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobsService.register(
+      'school.invitation_email',
+      ({ invitationId }: { invitationId: string }) =>
+        this.sendInvitation(invitationId),
+    );
+  }
+
+  async findPending(
+    schoolId: string,
+    actorId: string,
+    page: number = 1,
+    limit: number = 10,
+  ): Promise<any> {
+    await this.schoolMembersService.assertAdmin(schoolId, actorId);
+    const offset = (page - 1) * limit;
+
+    const { count, rows } = await this.invitationsRepository.findAndCountAll({
+      where: {
+        schoolId,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { [Op.gt]: new Date() },
+      },
+      offset,
+      limit,
+      order: [['createdAt', 'DESC']],
+    });
+
+    return {
+      data: rows.map((invitation) => this.toResponseDto(invitation)),
+      total: count,
+      page,
+      limit,
+      pages: Math.ceil(count / limit),
+    };
+  }
+
+  async create(
+    schoolId: string,
+    createInvitationDto: CreateInvitationDto,
+    actorId: string,
+  ): Promise<InvitationResponseDto> {
+    const school = await this.schoolMembersService.assertAdmin(
+      schoolId,
+      actorId,
+    );
+    const email = createInvitationDto.email;
+
+    const existingUser = await this.usersService.findByEmail(email);
+    if (existingUser) {
+      const membership = await this.schoolMembersRepository.findOne({
+        where: { schoolId, userId: existingUser.id },
+      });
+
+      if (membership || school.adminId === existingUser.id) {
+        throw new ConflictException('User is already a member of this school');
+      }
+    }
+
+    const pending = await this.invitationsRepository.findOne({
+      where: {
+        schoolId,
+        email,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { [Op.gt]: new Date() },
+      },
+    });
+
+    if (pending) {
+      throw new ConflictException(
+        'An invitation is already pending for this email. Resend it instead',
+      );
+    }
+
+    const expiresAt = new Date(
+      Date.now() +
+        (createInvitationDto.expiresInDays
+          ? createInvitationDto.expiresInDays * 24 * 60 * 60 * 1000
+          : securityConfig.INVITATION_EXPIRY),
+    );
+    const invitation = await this.invitationsRepository.sequelize!.transaction(
+      async (transaction) => {
+        const created = await this.invitationsRepository.create(
+          {
+            schoolId,
+            email,
+            role: createInvitationDto.role,
+            tokenHash: this.placeholderTokenHash(),
+            invitedById: actorId,
+            expiresAt,
+          },
+          { transaction },
+        );
+        await this.queueInvitation(created.id, transaction);
+
+        return created;
+      },
+    );
+
+    return this.toResponseDto(invitation);
+  }
+
+  async resend(
+    schoolId: string,
+    invitationId: string,
+    actorId: string,
+  ): Promise<InvitationResponseDto> {
+    await this.schoolMembersService.assertAdmin(schoolId, actorId);
+    const invitation = await this.findInvitation(schoolId, invitationId);
+
+    if (invitation.acceptedAt || invitation.revokedAt) {
+      throw new BadRequestException('Invitation is no longer pending');
+    }
+
+    // The previous link stops working now and the expiry window restarts
+    await this.invitationsRepository.sequelize!.transaction(
+      async (transaction) => {
+        await invitation.update(
+          {
+            tokenHash: this.placeholderTokenHash(),
+            expiresAt: new Date(Date.now() + securityConfig.INVITATION_EXPIRY),
+          },
+          { transaction },
+        );
+        await this.queueInvitation(invitation.id, transaction);
+      },
+    );
+
+    return this.toResponseDto(invitation);
+  }
+
+  async revoke(
+    schoolId: string,
+    invitationId: string,
+    actorId: string,
+  ): Promise<void> {
+    await this.schoolMembersService.assertAdmin(schoolId, actorId);
+    const invitation = await this.findInvitation(schoolId, invitationId);
+
+    if (invitation.acceptedAt || invitation.revokedAt) {
+      throw new BadRequestException('Invitation is no longer pending');
+    }
+
+    await invitation.update({ revokedAt: new Date() });
+  }
+
+  async accept(
+    acceptInvitationDto: AcceptInvitationDto,
+  ): Promise<MemberResponseDto> {
+    const invitation = await this.verifyToken(acceptInvitationDto.token);
+
+    let user = await this.usersService.findByEmail(invitation.email);
+
+    if (user && !user.isActive) {
+      throw new ForbiddenException('Account is disabled');
+    }
+
+    if (!user && !acceptInvitationDto.password) {
+      throw new BadRequestException(
+        'A password is required to create your account',
+      );
+    }
+
+    // Checked up front so a rejected password does not use up the invite
+    if (!user) {
+      this.passwordPolicyService.assertValid(acceptInvitationDto.password!, {
+        email: invitation.email,
+        name: acceptInvitationDto.name,
+      });
+    }
+
+    // One transaction, so a failure below leaves the invite usable
+    return this.invitationsRepository.sequelize!.transaction(
+      async (transaction) => {
+        // Mark as accepted first so the token cannot be replayed concurrently
+        const [affected] = await this.invitationsRepository.update(
+          { acceptedAt: new Date() },
+          {
+            where: {
+              id: invitation.id,
+              acceptedAt: null,
+              revokedAt: null,
+            },
+            transaction,
+          },
+        );
+        if (affected === 0) {
+          throw new BadRequestException('Invitation is invalid or expired');
+        }
+
+        if (!user) {
+          const created = await this.usersService.create(
+            {
+              email: invitation.email,
+              password: acceptInvitationDto.password!,
+              name: acceptInvitationDto.name,
+            },
+            { schoolId: invitation.schoolId, transaction },
+          );
+          user = await this.usersService.findEntityById(
+            created.id,
+            transaction,
+          );
+        }
+
+        // The invite link was delivered to this address, which proves ownership
+        if (!user!.emailVerifiedAt) {
+          await user!.update({ emailVerifiedAt: new Date() }, { transaction });
+        }
+
+        await invitation.update({ acceptedById: user!.id }, { transaction });
+
+        return this.schoolMembersService.addFromInvitation(
+          invitation.schoolId,
+          user!.id,
+          invitation.role,
+          transaction,
+        );
+      },
+    );
+  }
+
+  private async verifyToken(token: string): Promise<SchoolInvitations> {
+    let payload: any;
+    try {
+      payload = jwt.verify(token, authConfig.INVITATION_TOKEN_SECRET, {
+        algorithms: ['HS256'],
+      });
+    } catch {
+      throw new BadRequestException('Invitation is invalid or expired');
+    }
+
+    if (payload.type !== 'invitation') {
+      throw new BadRequestException('Invitation is invalid or expired');
+    }
+
+    const invitation = await this.invitationsRepository.findOne({
+      where: {
+        id: payload.sub,
+        tokenHash: this.hashToken(token),
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { [Op.gt]: new Date() },
+      },
+    });
+
+    if (!invitation) {
+      throw new BadRequestException('Invitation is invalid or expired');
+    }
+
+    return invitation;
+  }
+
+  private async findInvitation(
+    schoolId: string,
+    invitationId: string,
+  ): Promise<SchoolInvitations> {
+    const invitation = await this.invitationsRepository.findOne({
+      where: { id: invitationId, schoolId },
+    });
+
+    if (!invitation) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    return invitation;
+  }
+
+  // The token is created when the job runs, so it is never stored in the queue
+  private async queueInvitation(
+    invitationId: string,
+    transaction: Transaction,
+  ): Promise<void> {
+    await this.jobsService.enqueue(
+      'school.invitation_email',
+      { invitationId },
+      { transaction },
+    );
+  }
+
+  private async sendInvitation(invitationId: string): Promise<void> {
+    const invitation = await this.invitationsRepository.findByPk(invitationId, {
+      include: [Schools],
+    });
+    if (
+      !invitation ||
+      invitation.acceptedAt ||
+      invitation.revokedAt ||
+      invitation.expiresAt <= new Date()
+    ) {
+      return;
+    }
+
+    // Only the link from the latest send works
+    const token = this.signToken(invitation.id, invitation.expiresAt);
+    await invitation.update({ tokenHash: this.hashToken(token) });
+
+    const school = invitation.school;
+    const acceptUrl = `${appConfig.APP_URL}/accept-invitation?token=${token}`;
+    await this.mailService.send({
+      to: invitation.email,
+      subject: `You have been invited to join ${school.name}`,
+      text:
+        `Hi,\n\n` +
+        `You have been invited to join ${school.name} as ${invitation.role}.\n` +
+        `Use the link below to accept the invitation:\n${acceptUrl}\n\n` +
+        `This invitation expires on ${invitation.expiresAt.toUTCString()}.`,
+    });
+  }
+
+  // Matches no token until the invitation job issues the real one
+  private placeholderTokenHash(): string {
+    return this.hashToken(crypto.randomBytes(32).toString('hex'));
+  }
+
+  private signToken(invitationId: string, expiresAt: Date): string {
+    const options: any = {
+      expiresIn: Math.ceil((expiresAt.getTime() - Date.now()) / 1000),
+      algorithm: 'HS256',
+      jwtid: crypto.randomBytes(16).toString('hex'),
+    };
+
+    return jwt.sign(
+      { sub: invitationId, type: 'invitation' },
+      authConfig.INVITATION_TOKEN_SECRET,
+      options,
+    );
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private toResponseDto(invitation: SchoolInvitations): InvitationResponseDto {
+    let status = 'pending';
+    if (invitation.acceptedAt) {
+      status = 'accepted';
+    } else if (invitation.revokedAt) {
+      status = 'revoked';
+    } else if (invitation.expiresAt <= new Date()) {
+      status = 'expired';
+    }
+
+    return {
+      id: invitation.id,
+      schoolId: invitation.schoolId,
+      email: invitation.email,
+      role: invitation.role,
+      invitedById: invitation.invitedById,
+      status,
+      expiresAt: invitation.expiresAt,
+      acceptedAt: invitation.acceptedAt,
+      revokedAt: invitation.revokedAt,
+      createdAt: invitation.createdAt,
+    };
+  }
+}
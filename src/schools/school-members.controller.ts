@@ -0,0 +1,107 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  HttpCode,
+} from '@nestjs/common';
+import { SchoolMembersService } from './school-members.service';
+import { AddMemberDto } from './dto/add-member.dto';
+import { UpdateMemberDto } from './dto/update-member.dto';
+import { TransferOwnershipDto } from './dto/transfer-ownership.dto';
+import { Schools } from './schools.entity';
+import { SchoolMembers } from './school-members.entity';
+import { JwtGuard } from '../common/guards/jwt.guard';
+import { Audit } from '../common/decorators/audit.decorator';
+
+// Members are addressed by school and user rather than by membership id
+const MEMBER_LOOKUP = ['schoolId', 'userId'];
+
+@Controller('schools/:schoolId')
+@UseGuards(JwtGuard)
+export class SchoolMembersController {
+  constructor(private readonly schoolMembersService: SchoolMembersService) {}
+
+  @Get('members')
+  async findAll(
+    @Param('schoolId') schoolId: string,
+    @Request() req: any,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 10,
+  ) {
+    return this.schoolMembersService.findAll(
+      schoolId,
+      req.user.sub,
+      page,
+      limit,
+    );
+  }
+
+  @Post('members')
+  @HttpCode(201)
+  @Audit('member.add', 'school_member', { model: SchoolMembers })
+  async add(
+    @Param('schoolId') schoolId: string,
+    @Body() addMemberDto: AddMemberDto,
+    @Request() req: any,
+  ) {
+    return this.schoolMembersService.add(schoolId, addMemberDto, req.user.sub);
+  }
+
+  @Put('members/:userId')
+  @Audit('member.update_role', 'school_member', {
+    model: SchoolMembers,
+    lookup: MEMBER_LOOKUP,
+  })
+  async updateRole(
+    @Param('schoolId') schoolId: string,
+    @Param('userId') userId: string,
+    @Body() updateMemberDto: UpdateMemberDto,
+    @Request() req: any,
+  ) {
+    return this.schoolMembersService.updateRole(
+      schoolId,
+      userId,
+      updateMemberDto,
+      req.user.sub,
+    );
+  }
+
+  @Delete('members/:userId')
+  @Audit('member.remove', 'school_member', {
+    model: SchoolMembers,
+    lookup: MEMBER_LOOKUP,
+  })
+  async remove(
+    @Param('schoolId') schoolId: string,
+    @Param('userId') userId: string,
+    @Request() req: any,
+  ) {
+    await this.schoolMembersService.remove(schoolId, userId, req.user.sub);
+    return { message: 'Member removed successfully' };
+  }
+
+  @Post('transfer-ownership')
+  @HttpCode(200)
+  @Audit('school.transfer_ownership', 'school', {
+    model: Schools,
+    idParam: 'schoolId',
+  })
+  async transferOwnership(
+    @Param('schoolId') schoolId: string,
+    @Body() transferOwnershipDto: TransferOwnershipDto,
+    @Request() req: any,
+  ) {
+    return this.schoolMembersService.transferOwnership(
+      schoolId,
+      transferOwnershipDto.userId,
+      req.user.sub,
+    );
+  }
+}
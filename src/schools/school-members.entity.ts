@@ -0,0 +1,58 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { Users } from '../users/users.entity';
+import { Schools } from './schools.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+@Table({
+  tableName: 'school_members',
+  timestamps: true,
+  indexes: [
+    { fields: ['schoolId', 'userId'], unique: true },
+    { fields: ['userId'] },
+    { fields: ['role'] },
+  ],
+})
+export class SchoolMembers extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Schools)
+  @Column({
+    type: DataType.UUID,
+  })
+  schoolId: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  userId: string;
+
+  // One of CONSTANTS.SCHOOL_ROLES
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(50),
+  })
+  role: string;
+
+  // Relationships
+  @BelongsTo(() => Schools, { onDelete: 'CASCADE' })
+  school: Schools;
+
+  @BelongsTo(() => Users, { onDelete: 'CASCADE' })
+  user: Users;
+}
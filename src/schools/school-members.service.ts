@@ -0,0 +1,427 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Transaction } from 'sequelize';
+import { Schools } from './schools.entity';
+import { SchoolMembers } from './school-members.entity';
+import { Users } from '../users/users.entity';
+import { RolesService } from '../roles/roles.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { CONSTANTS } from '../common/utils/constants';
+import { AddMemberDto } from './dto/add-member.dto';
+import { UpdateMemberDto } from './dto/update-member.dto';
+import { MemberResponseDto } from './dto/member-response.dto';
+import { SchoolResponseDto } from './dto/school-response.dto';
+
+@Injectable()
+export class SchoolMembersService {
+  constructor(
+    @Inject('SCHOOLS_REPOSITORY')
+    private readonly schoolsRepository: typeof Schools,
+    @Inject('SCHOOL_MEMBERS_REPOSITORY')
+    private readonly schoolMembersRepository: typeof SchoolMembers,
+    @Inject('USERS_REPOSITORY')
+    private readonly usersRepository: typeof Users,
+    private readonly rolesService: RolesService,
+    private readonly webhooksService: WebhooksService,
+  ) {}
+
+  async findAll(
+    schoolId: string,
+    userId: string,
+    page: number = 1,
+    limit: number = 10,
+  ): Promise<any> {
+    // Any member of the school may see its member list
+    const school = await this.assertRole(
+      schoolId,
+      userId,
+      Object.values(CONSTANTS.SCHOOL_ROLES),
+      CONSTANTS.PERMISSIONS.SCHOOLS_READ,
+    );
+    const offset = (page - 1) * limit;
+
+    const { count, rows } = await this.schoolMembersRepository.findAndCountAll({
+      where: { schoolId },
+      include: [Users],
+      offset,
+      limit,
+      order: [['createdAt', 'ASC']],
+    });
+
+    return {
+      data: rows.map((member) => this.toResponseDto(member, school)),
+      total: count,
+      page,
+      limit,
+      pages: Math.ceil(count / limit),
+    };
+  }
+
+  async add(
+    schoolId: string,
+    addMemberDto: AddMemberDto,
+    actorId: string,
+  ): Promise<MemberResponseDto> {
+    const school = await this.assertAdmin(schoolId, actorId);
+
+    const user = await this.usersRepository.findByPk(addMemberDto.userId);
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const existing = await this.schoolMembersRepository.findOne({
+      where: { schoolId, userId: user.id },
+    });
+
+    if (existing) {
+      throw new ConflictException('User is already a member of this school');
+    }
+
+    const member = await this.schoolMembersRepository.sequelize!.transaction(
+      (transaction) =>
+        this.createMember(school, user, addMemberDto.role, transaction),
+    );
+
+    return this.toResponseDto(member, school);
+  }
+
+  /**
+   * Inserts a membership and announces it to the school's webhooks.
+   * Callers check access and existing memberships first.
+   */
+  async createMember(
+    school: Schools,
+    user: Users,
+    role: string,
+    transaction: Transaction,
+  ): Promise<SchoolMembers> {
+    const member = await this.schoolMembersRepository.create(
+      { schoolId: school.id, userId: user.id, role },
+      { transaction },
+    );
+    member.user = user;
+    await this.webhooksService.emit(
+      school.id,
+      CONSTANTS.WEBHOOK_EVENTS.MEMBER_ADDED,
+      this.toResponseDto(member, school),
+      transaction,
+    );
+
+    return member;
+  }
+
+  async updateRole(
+    schoolId: string,
+    memberUserId: string,
+    updateMemberDto: UpdateMemberDto,
+    actorId: string,
+  ): Promise<MemberResponseDto> {
+    const school = await this.assertAdmin(schoolId, actorId);
+    const member = await this.findMember(schoolId, memberUserId);
+
+    // The owner always keeps the admin role; transfer ownership first
+    if (
+      school.adminId === memberUserId &&
+      updateMemberDto.role !== CONSTANTS.SCHOOL_ROLES.ADMIN
+    ) {
+      throw new BadRequestException(
+        'The school owner must remain an admin. Transfer ownership first',
+      );
+    }
+
+    await this.schoolMembersRepository.sequelize!.transaction(
+      async (transaction) => {
+        await member.update({ role: updateMemberDto.role }, { transaction });
+        await this.webhooksService.emit(
+          schoolId,
+          CONSTANTS.WEBHOOK_EVENTS.MEMBER_UPDATED,
+          this.toResponseDto(member, school),
+          transaction,
+        );
+      },
+    );
+
+    return this.toResponseDto(member, school);
+  }
+
+  async remove(
+    schoolId: string,
+    memberUserId: string,
+    actorId: string,
+  ): Promise<void> {
+    // Members may always leave a school on their own
+    if (memberUserId !== actorId) {
+      await this.assertAdmin(schoolId, actorId);
+    }
+
+    const school = await this.findSchool(schoolId);
+
+    if (school.adminId === memberUserId) {
+      throw new BadRequestException(
+        'The school owner cannot be removed. Transfer ownership first',
+      );
+    }
+
+    const member = await this.findMember(schoolId, memberUserId);
+
+    await this.schoolMembersRepository.sequelize!.transaction(
+      async (transaction) => {
+        await this.webhooksService.emit(
+          schoolId,
+          CONSTANTS.WEBHOOK_EVENTS.MEMBER_REMOVED,
+          this.toResponseDto(member, school),
+          transaction,
+        );
+        await member.destroy({ transaction });
+      },
+    );
+  }
+
+  async transferOwnership(
+    schoolId: string,
+    newOwnerId: string,
+    actorId: string,
+  ): Promise<MemberResponseDto> {
+    const school = await this.findSchool(schoolId);
+
+    // Only the current owner (or a holder of schools:update) can hand it over
+    if (
+      school.adminId !== actorId &&
+      !(await this.rolesService.hasPermissions(
+        actorId,
+        [CONSTANTS.PERMISSIONS.SCHOOLS_UPDATE],
+        schoolId,
+      ))
+    ) {
+      throw new ForbiddenException(
+        'Only the school owner can transfer ownership',
+      );
+    }
+
+    if (school.adminId === newOwnerId) {
+      throw new BadRequestException('User already owns this school');
+    }
+
+    const member = await this.findMember(schoolId, newOwnerId);
+    const previousOwnerId = school.adminId;
+
+    await this.schoolsRepository.sequelize!.transaction(async (transaction) => {
+      await member.update(
+        { role: CONSTANTS.SCHOOL_ROLES.ADMIN },
+        { transaction },
+      );
+      await school.update({ adminId: newOwnerId }, { transaction });
+
+      // The previous owner stays on as an admin
+      const [previous, created] =
+        await this.schoolMembersRepository.findOrCreate({
+          where: { schoolId, userId: previousOwnerId },
+          defaults: { role: CONSTANTS.SCHOOL_ROLES.ADMIN },
+          transaction,
+        });
+      await previous.reload({ include: [Users], transaction });
+
+      await this.webhooksService.emit(
+        schoolId,
+        CONSTANTS.WEBHOOK_EVENTS.SCHOOL_UPDATED,
+        this.toSchoolResponseDto(school),
+        transaction,
+      );
+      await this.webhooksService.emit(
+        schoolId,
+        CONSTANTS.WEBHOOK_EVENTS.MEMBER_UPDATED,
+        this.toResponseDto(member, school),
+        transaction,
+      );
+      await this.webhooksService.emit(
+        schoolId,
+        created
+          ? CONSTANTS.WEBHOOK_EVENTS.MEMBER_ADDED
+          : CONSTANTS.WEBHOOK_EVENTS.MEMBER_UPDATED,
+        this.toResponseDto(previous, school),
+        transaction,
+      );
+    });
+
+    return this.toResponseDto(member, school);
+  }
+
+  /**
+   * Grants the invited role to a user who accepted an invitation. Existing
+   * members are moved to the invited role, except the owner who stays admin.
+   * Runs in the transaction that marks the invitation accepted.
+   */
+  async addFromInvitation(
+    schoolId: string,
+    userId: string,
+    role: string,
+    transaction: Transaction,
+  ): Promise<MemberResponseDto> {
+    const school = await this.findSchool(schoolId);
+
+    const [member, created] = await this.schoolMembersRepository.findOrCreate({
+      where: { schoolId, userId },
+      defaults: { role },
+      transaction,
+    });
+
+    let event: string | null = created
+      ? CONSTANTS.WEBHOOK_EVENTS.MEMBER_ADDED
+      : null;
+    if (!created && school.adminId !== userId && member.role !== role) {
+      await member.update({ role }, { transaction });
+      event = CONSTANTS.WEBHOOK_EVENTS.MEMBER_UPDATED;
+    }
+
+    if (event) {
+      await member.reload({ include: [Users], transaction });
+      await this.webhooksService.emit(
+        schoolId,
+        event,
+        this.toResponseDto(member, school),
+        transaction,
+      );
+    }
+
+    return this.toResponseDto(member, school);
+  }
+
+  /**
+   * Registers the creator of a school as its first admin member.
+   */
+  async addOwner(schoolId: string, userId: string): Promise<void> {
+    await this.schoolMembersRepository.findOrCreate({
+      where: { schoolId, userId },
+      defaults: { role: CONSTANTS.SCHOOL_ROLES.ADMIN },
+    });
+  }
+
+  /**
+   * Resolves the user's role within a school. The owner is always treated
+   * as an admin, even when no membership row exists for them yet.
+   */
+  async getRole(school: Schools, userId: string): Promise<string | null> {
+    if (school.adminId === userId) {
+      return CONSTANTS.SCHOOL_ROLES.ADMIN;
+    }
+
+    const member = await this.schoolMembersRepository.findOne({
+      where: { schoolId: school.id, userId },
+    });
+
+    return member ? member.role : null;
+  }
+
+  /**
+   * Ensures the user holds one of the given school roles, or the given
+   * permission through a global or school-scoped role assignment.
+   */
+  async assertRole(
+    schoolId: string,
+    userId: string,
+    roles: string[],
+    permission?: string,
+  ): Promise<Schools> {
+    const school = await this.findSchool(schoolId);
+    const role = await this.getRole(school, userId);
+
+    if (role && roles.includes(role)) {
+      return school;
+    }
+
+    if (
+      permission &&
+      (await this.rolesService.hasPermissions(userId, [permission], schoolId))
+    ) {
+      return school;
+    }
+
+    throw new ForbiddenException(
+      'You do not have permission to perform this action in this school',
+    );
+  }
+
+  async assertAdmin(schoolId: string, userId: string): Promise<Schools> {
+    return this.assertRole(
+      schoolId,
+      userId,
+      [CONSTANTS.SCHOOL_ROLES.ADMIN],
+      CONSTANTS.PERMISSIONS.SCHOOLS_UPDATE,
+    );
+  }
+
+  private async findSchool(schoolId: string): Promise<Schools> {
+    const school = await this.schoolsRepository.findByPk(schoolId);
+
+    if (!school) {
+      throw new NotFoundException('School not found');
+    }
+
+    return school;
+  }
+
+  private async findMember(
+    schoolId: string,
+    userId: string,
+  ): Promise<SchoolMembers> {
+    const member = await this.schoolMembersRepository.findOne({
+      where: { schoolId, userId },
+      include: [Users],
+    });
+
+    if (!member) {
+      throw new NotFoundException('Member not found');
+    }
+
+    return member;
+  }
+
+  // Same shape as the school.updated events SchoolsService sends
+  private toSchoolResponseDto(school: Schools): SchoolResponseDto {
+    return {
+      id: school.id,
+      name: school.name,
+      description: school.description,
+      adminId: school.adminId,
+      logo: school.logo,
+      banner: school.banner,
+      address: school.address,
+      phone: school.phone,
+      email: school.email,
+      totalClasses: school.totalClasses,
+      totalStudents: school.totalStudents,
+      isActive: school.isActive,
+      createdAt: school.createdAt,
+      updatedAt: school.updatedAt,
+    };
+  }
+
+  private toResponseDto(
+    member: SchoolMembers,
+    school: Schools,
+  ): MemberResponseDto {
+    return {
+      id: member.id,
+      schoolId: member.schoolId,
+      userId: member.userId,
+      role: member.role,
+      isOwner: school.adminId === member.userId,
+      user: member.user
+        ? {
+            id: member.user.id,
+            email: member.user.email,
+            name: member.user.name,
+          }
+        : null,
+      createdAt: member.createdAt,
+      updatedAt: member.updatedAt,
+    };
+  }
+}
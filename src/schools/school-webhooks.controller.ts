@@ -0,0 +1,117 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  HttpCode,
+} from '@nestjs/common';
+import { SchoolMembersService } from './school-members.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookSubscriptions } from '../webhooks/webhook-subscriptions.entity';
+import { CreateWebhookDto } from '../webhooks/dto/create-webhook.dto';
+import { UpdateWebhookDto } from '../webhooks/dto/update-webhook.dto';
+import { WebhookDeliveryListQueryDto } from '../webhooks/dto/webhook-delivery-list-query.dto';
+import { JwtGuard } from '../common/guards/jwt.guard';
+import { Audit } from '../common/decorators/audit.decorator';
+
+// Webhooks are managed by the school's admins
+@Controller('schools/:schoolId/webhooks')
+@UseGuards(JwtGuard)
+export class SchoolWebhooksController {
+  constructor(
+    private readonly schoolMembersService: SchoolMembersService,
+    private readonly webhooksService: WebhooksService,
+  ) {}
+
+  @Post()
+  @HttpCode(201)
+  @Audit('webhook.create', 'webhook', { model: WebhookSubscriptions })
+  async create(
+    @Param('schoolId') schoolId: string,
+    @Body() createWebhookDto: CreateWebhookDto,
+    @Request() req: any,
+  ) {
+    await this.schoolMembersService.assertAdmin(schoolId, req.user.sub);
+    return this.webhooksService.create(schoolId, createWebhookDto);
+  }
+
+  @Get()
+  async findAll(@Param('schoolId') schoolId: string, @Request() req: any) {
+    await this.schoolMembersService.assertAdmin(schoolId, req.user.sub);
+    return this.webhooksService.findAll(schoolId);
+  }
+
+  @Get(':id')
+  async findOne(
+    @Param('schoolId') schoolId: string,
+    @Param('id') id: string,
+    @Request() req: any,
+  ) {
+    await this.schoolMembersService.assertAdmin(schoolId, req.user.sub);
+    return this.webhooksService.findOne(schoolId, id);
+  }
+
+  @Put(':id')
+  @Audit('webhook.update', 'webhook', { model: WebhookSubscriptions })
+  async update(
+    @Param('schoolId') schoolId: string,
+    @Param('id') id: string,
+    @Body() updateWebhookDto: UpdateWebhookDto,
+    @Request() req: any,
+  ) {
+    await this.schoolMembersService.assertAdmin(schoolId, req.user.sub);
+    return this.webhooksService.update(schoolId, id, updateWebhookDto);
+  }
+
+  @Delete(':id')
+  @Audit('webhook.delete', 'webhook', { model: WebhookSubscriptions })
+  async remove(
+    @Param('schoolId') schoolId: string,
+    @Param('id') id: string,
+    @Request() req: any,
+  ) {
+    await this.schoolMembersService.assertAdmin(schoolId, req.user.sub);
+    await this.webhooksService.remove(schoolId, id);
+    return { message: 'Webhook deleted successfully' };
+  }
+
+  @Post(':id/rotate-secret')
+  @HttpCode(200)
+  @Audit('webhook.rotate_secret', 'webhook')
+  async rotateSecret(
+    @Param('schoolId') schoolId: string,
+    @Param('id') id: string,
+    @Request() req: any,
+  ) {
+    await this.schoolMembersService.assertAdmin(schoolId, req.user.sub);
+    return this.webhooksService.rotateSecret(schoolId, id);
+  }
+
+  @Post(':id/test')
+  @HttpCode(200)
+  async sendTest(
+    @Param('schoolId') schoolId: string,
+    @Param('id') id: string,
+    @Request() req: any,
+  ) {
+    await this.schoolMembersService.assertAdmin(schoolId, req.user.sub);
+    return this.webhooksService.sendTest(schoolId, id);
+  }
+
+  @Get(':id/deliveries')
+  async findDeliveries(
+    @Param('schoolId') schoolId: string,
+    @Param('id') id: string,
+    @Query() query: WebhookDeliveryListQueryDto,
+    @Request() req: any,
+  ) {
+    await this.schoolMembersService.assertAdmin(schoolId, req.user.sub);
+    return this.webhooksService.findDeliveries(schoolId, id, query);
+  }
+}
@@ -10,22 +10,38 @@ import {
   UseGuards,
   Request,
   HttpCode,
+  Res,
 } from '@nestjs/common';
+import type { Response } from 'express';
 import { SchoolsService } from './schools.service';
+import { Schools } from './schools.entity';
 import { CreateSchoolDto } from './dto/create-school.dto';
 import { UpdateSchoolDto } from './dto/update-school.dto';
+import { SchoolListQueryDto } from './dto/school-list-query.dto';
+import { SchoolExportQueryDto } from './dto/school-export-query.dto';
 import { JwtGuard } from '../common/guards/jwt.guard';
-import { RolesGuard } from '../common/guards/roles.guard';
-import { Roles } from '../common/decorators/roles.decorator';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { EmailVerifiedGuard } from '../common/guards/email-verified.guard';
+import { Permissions } from '../common/decorators/permissions.decorator';
+import { RequireVerifiedEmail } from '../common/decorators/verified-email.decorator';
+import { Audit } from '../common/decorators/audit.decorator';
+import { RolesService } from '../roles/roles.service';
+import { CONSTANTS } from '../common/utils/constants';
+import { ExportUtil } from '../common/utils/export.util';
 
 @Controller('schools')
 export class SchoolsController {
-  constructor(private readonly schoolsService: SchoolsService) {}
+  constructor(
+    private readonly schoolsService: SchoolsService,
+    private readonly rolesService: RolesService,
+  ) {}
 
   @Post()
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles('admin')
+  @UseGuards(JwtGuard, PermissionsGuard, EmailVerifiedGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.SCHOOLS_CREATE)
+  @RequireVerifiedEmail()
   @HttpCode(201)
+  @Audit('school.create', 'school', { model: Schools })
   async create(
     @Body() createSchoolDto: CreateSchoolDto,
     @Request() req: any,
@@ -35,24 +51,45 @@ export class SchoolsController {
   }
 
   @Get()
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles('admin')
-  async findAll(
-    @Query('page') page: number = 1,
-    @Query('limit') limit: number = 10,
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.SCHOOLS_READ)
+  async findAll(@Query() query: SchoolListQueryDto) {
+    return this.schoolsService.findAll(query);
+  }
+
+  @Get('export')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.SCHOOLS_EXPORT)
+  async export(
+    @Request() req: any,
+    @Res() res: Response,
+    @Query() query: SchoolExportQueryDto,
   ) {
-    return this.schoolsService.findAll(page, limit);
+    const showContacts = await this.rolesService.hasPermissions(req.user.sub, [
+      CONSTANTS.PERMISSIONS.CONTACTS_VIEW,
+    ]);
+
+    await ExportUtil.stream(
+      res,
+      query.format,
+      'schools',
+      this.schoolsService.getExportColumns(showContacts),
+      this.schoolsService.streamAll(query),
+    );
+  }
+
+  // Admin trash listing
+  @Get('trash')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.SCHOOLS_DELETE)
+  async findDeleted(@Query() query: SchoolListQueryDto) {
+    return this.schoolsService.findDeleted(query);
   }
 
   @Get('my-schools')
   @UseGuards(JwtGuard)
-  async getMySchools(
-    @Request() req: any,
-    @Query('page') page: number = 1,
-    @Query('limit') limit: number = 10,
-  ) {
-    const adminId = req.user.sub;
-    return this.schoolsService.findByAdmin(adminId, page, limit);
+  async getMySchools(@Request() req: any, @Query() query: SchoolListQueryDto) {
+    return this.schoolsService.findByMember(req.user.sub, query);
   }
 
   @Get(':id')
@@ -63,6 +100,7 @@ export class SchoolsController {
 
   @Put(':id')
   @UseGuards(JwtGuard)
+  @Audit('school.update', 'school', { model: Schools })
   async update(
     @Param('id') id: string,
     @Body() updateSchoolDto: UpdateSchoolDto,
@@ -74,9 +112,19 @@ export class SchoolsController {
 
   @Delete(':id')
   @UseGuards(JwtGuard)
+  @Audit('school.delete', 'school', { model: Schools })
   async delete(@Param('id') id: string, @Request() req: any) {
     const adminId = req.user.sub;
     await this.schoolsService.delete(id, adminId);
     return { message: 'School deleted successfully' };
   }
+
+  @Post(':id/restore')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.SCHOOLS_DELETE)
+  @HttpCode(200)
+  @Audit('school.restore', 'school', { model: Schools })
+  async restore(@Param('id') id: string) {
+    return this.schoolsService.restore(id);
+  }
 }
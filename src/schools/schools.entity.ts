@@ -10,16 +10,21 @@ import {
   HasMany,
 } from 'sequelize-typescript';
 import { Users } from '../users/users.entity';
+import { SchoolMembers } from './school-members.entity';
+import { Classes } from '../classes/classes.entity';
 import { v4 as uuidv4 } from 'uuid';
 
 @Table({
   tableName: 'schools',
   timestamps: true,
+  paranoid: true,
   indexes: [
     { fields: ['adminId'] },
     { fields: ['createdAt'] },
     { fields: ['isActive'] },
     { fields: ['name'] },
+    { fields: ['email'] },
+    { fields: ['deletedAt'] },
   ],
 })
 export class Schools extends Model {
@@ -100,4 +105,10 @@ export class Schools extends Model {
   // Relationships
   @BelongsTo(() => Users)
   admin: Users;
+
+  @HasMany(() => SchoolMembers)
+  members: SchoolMembers[];
+
+  @HasMany(() => Classes)
+  classes: Classes[];
 }
@@ -1,13 +1,49 @@
-import { Module } from '@nestjs/common';
+import { Module, NestModule, MiddlewareConsumer } from '@nestjs/common';
 import { DatabaseModule } from '../db/database.module';
+import { RolesModule } from '../roles/roles.module';
+import { UsersModule } from '../users/users.module';
+import { MailModule } from '../mail/mail.module';
+import { AuditModule } from '../audit/audit.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { JobsModule } from '../jobs/jobs.module';
 import { SchoolsService } from './schools.service';
+import { SchoolMembersService } from './school-members.service';
+import { SchoolInvitationsService } from './school-invitations.service';
 import { SchoolsController } from './schools.controller';
+import { SchoolMembersController } from './school-members.controller';
+import { SchoolInvitationsController } from './school-invitations.controller';
+import { SchoolWebhooksController } from './school-webhooks.controller';
 import { schoolsProviders } from './schools.provider';
+import { strictLimiter } from '../common/middleware/rate-limit.middleware';
 
 @Module({
-  imports: [DatabaseModule],
-  providers: [SchoolsService, ...schoolsProviders],
-  controllers: [SchoolsController],
-  exports: [SchoolsService],
+  imports: [
+    DatabaseModule,
+    RolesModule,
+    UsersModule,
+    MailModule,
+    AuditModule,
+    WebhooksModule,
+    JobsModule,
+  ],
+  providers: [
+    SchoolsService,
+    SchoolMembersService,
+    SchoolInvitationsService,
+    ...schoolsProviders,
+  ],
+  controllers: [
+    SchoolsController,
+    SchoolMembersController,
+    SchoolInvitationsController,
+    SchoolWebhooksController,
+  ],
+  exports: [SchoolsService, SchoolMembersService],
 })
-export class SchoolsModule {}
+export class SchoolsModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    // Apply strict rate limiter to invitation acceptance
+    // Limit: 10 attempts per 15 minutes per IP
+    consumer.apply(strictLimiter).forRoutes('invitations/accept');
+  }
+}
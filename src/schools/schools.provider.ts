@@ -1,8 +1,23 @@
 import { Schools } from './schools.entity';
+import { SchoolMembers } from './school-members.entity';
+import { SchoolInvitations } from './school-invitations.entity';
+import { Users } from '../users/users.entity';
 
 export const schoolsProviders = [
   {
     provide: 'SCHOOLS_REPOSITORY',
     useValue: Schools,
   },
+  {
+    provide: 'SCHOOL_MEMBERS_REPOSITORY',
+    useValue: SchoolMembers,
+  },
+  {
+    provide: 'SCHOOL_INVITATIONS_REPOSITORY',
+    useValue: SchoolInvitations,
+  },
+  {
+    provide: 'USERS_REPOSITORY',
+    useValue: Users,
+  },
 ];
@@ -1,19 +1,44 @@
 import {
   Injectable,
   Inject,
+  Logger,
   NotFoundException,
-  ForbiddenException,
+  BadRequestException,
 } from '@nestjs/common';
+import { ForeignKeyConstraintError, Op, WhereOptions } from 'sequelize';
 import { Schools } from './schools.entity';
+import { Users } from '../users/users.entity';
+import { SchoolMembers } from './school-members.entity';
+import { SchoolMembersService } from './school-members.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { CONSTANTS } from '../common/utils/constants';
+import { ExportColumn, ExportUtil } from '../common/utils/export.util';
+import { QueryUtil } from '../common/utils/query.util';
+import { CursorUtil } from '../common/utils/cursor.util';
 import { CreateSchoolDto } from './dto/create-school.dto';
 import { UpdateSchoolDto } from './dto/update-school.dto';
 import { SchoolResponseDto } from './dto/school-response.dto';
+import { SchoolListQueryDto } from './dto/school-list-query.dto';
+
+const SCHOOL_SORT_FIELDS = [
+  'name',
+  'isActive',
+  'totalClasses',
+  'totalStudents',
+  'createdAt',
+];
 
 @Injectable()
 export class SchoolsService {
+  private readonly logger = new Logger('Schools');
+
   constructor(
     @Inject('SCHOOLS_REPOSITORY')
     private readonly schoolsRepository: typeof Schools,
+    @Inject('USERS_REPOSITORY')
+    private readonly usersRepository: typeof Users,
+    private readonly schoolMembersService: SchoolMembersService,
+    private readonly webhooksService: WebhooksService,
   ) {}
 
   async create(
@@ -25,27 +50,111 @@ export class SchoolsService {
       adminId,
     });
 
+    await this.schoolMembersService.addOwner(school.id, adminId);
+
     return this.toResponseDto(school);
   }
 
-  async findAll(page: number = 1, limit: number = 10): Promise<any> {
-    const offset = (page - 1) * limit;
+  async findAll(query: SchoolListQueryDto): Promise<any> {
+    if (CursorUtil.requested(query)) {
+      const { rows, nextCursor, prevCursor } = await CursorUtil.paginate(
+        this.schoolsRepository,
+        'schools',
+        query.cursor,
+        query.limit,
+        { where: this.buildWhere(query) },
+      );
+
+      return {
+        data: rows.map((school) => this.toResponseDto(school)),
+        limit: query.limit,
+        nextCursor,
+        prevCursor,
+      };
+    }
+
+    const { offset, limit } = QueryUtil.paginate(query);
 
     const { count, rows } = await this.schoolsRepository.findAndCountAll({
+      where: this.buildWhere(query),
       offset,
       limit,
-      order: [['createdAt', 'DESC']],
+      order: QueryUtil.order(query.sort, SCHOOL_SORT_FIELDS),
     });
 
     return {
       data: rows.map((school) => this.toResponseDto(school)),
       total: count,
-      page,
+      page: query.page,
       limit,
       pages: Math.ceil(count / limit),
     };
   }
 
+  /**
+   * Walks every school matching the list filters in creation order, one
+   * keyset page at a time. `sort` does not apply.
+   */
+  async *streamAll(
+    query: SchoolListQueryDto,
+    batchSize: number = CONSTANTS.EXPORT.BATCH_SIZE,
+  ): AsyncGenerator<Schools> {
+    const where = this.buildWhere(query);
+    let last: Schools | null = null;
+
+    while (true) {
+      const batch: Schools[] = await this.schoolsRepository.findAll({
+        where: QueryUtil.and(
+          where,
+          last
+            ? {
+                [Op.or]: [
+                  { createdAt: { [Op.gt]: last.createdAt } },
+                  { createdAt: last.createdAt, id: { [Op.gt]: last.id } },
+                ],
+              }
+            : undefined,
+        ),
+        order: [
+          ['createdAt', 'ASC'],
+          ['id', 'ASC'],
+        ],
+        limit: batchSize,
+      });
+
+      yield* batch;
+
+      if (batch.length < batchSize) {
+        return;
+      }
+      last = batch[batch.length - 1];
+    }
+  }
+
+  /**
+   * Export columns. Phone numbers are masked unless the caller may view
+   * contact details.
+   */
+  getExportColumns(showContacts: boolean): ExportColumn<Schools>[] {
+    return [
+      { header: 'id', value: (school) => school.id },
+      { header: 'name', value: (school) => school.name },
+      { header: 'description', value: (school) => school.description },
+      { header: 'adminId', value: (school) => school.adminId },
+      { header: 'address', value: (school) => school.address },
+      {
+        header: 'phone',
+        value: (school) =>
+          showContacts ? school.phone : ExportUtil.maskPhone(school.phone),
+      },
+      { header: 'email', value: (school) => school.email },
+      { header: 'totalClasses', value: (school) => school.totalClasses },
+      { header: 'totalStudents', value: (school) => school.totalStudents },
+      { header: 'isActive', value: (school) => school.isActive },
+      { header: 'createdAt', value: (school) => school.createdAt },
+    ];
+  }
+
   async findById(id: string): Promise<SchoolResponseDto> {
     const school = await this.schoolsRepository.findByPk(id);
 
@@ -61,60 +170,195 @@ export class SchoolsService {
     updateSchoolDto: UpdateSchoolDto,
     adminId: string,
   ): Promise<SchoolResponseDto> {
-    const school = await this.schoolsRepository.findByPk(id);
+    // Only admins of the school (or a holder of schools:update) can update it
+    const school = await this.schoolMembersService.assertRole(
+      id,
+      adminId,
+      [CONSTANTS.SCHOOL_ROLES.ADMIN],
+      CONSTANTS.PERMISSIONS.SCHOOLS_UPDATE,
+    );
 
-    if (!school) {
-      throw new NotFoundException('School not found');
+    await this.schoolsRepository.sequelize!.transaction(async (transaction) => {
+      await school.update(updateSchoolDto, { transaction });
+      await this.webhooksService.emit(
+        id,
+        CONSTANTS.WEBHOOK_EVENTS.SCHOOL_UPDATED,
+        this.toResponseDto(school),
+        transaction,
+      );
+    });
+
+    return this.toResponseDto(school);
+  }
+
+  async delete(id: string, adminId: string): Promise<void> {
+    // Only admins of the school (or a holder of schools:delete) can delete it
+    const school = await this.schoolMembersService.assertRole(
+      id,
+      adminId,
+      [CONSTANTS.SCHOOL_ROLES.ADMIN],
+      CONSTANTS.PERMISSIONS.SCHOOLS_DELETE,
+    );
+
+    await this.schoolsRepository.sequelize!.transaction(async (transaction) => {
+      await this.webhooksService.emit(
+        id,
+        CONSTANTS.WEBHOOK_EVENTS.SCHOOL_DELETED,
+        this.toResponseDto(school),
+        transaction,
+      );
+      await school.destroy({ transaction });
+    });
+  }
+
+  async findDeleted(query: SchoolListQueryDto): Promise<any> {
+    const { offset, limit } = QueryUtil.paginate(query);
+
+    const { count, rows } = await this.schoolsRepository.findAndCountAll({
+      where: QueryUtil.and(this.buildWhere(query), {
+        deletedAt: { [Op.ne]: null },
+      }),
+      paranoid: false,
+      offset,
+      limit,
+      order: QueryUtil.order(
+        query.sort,
+        [...SCHOOL_SORT_FIELDS, 'deletedAt'],
+        '-deletedAt',
+      ),
+    });
+
+    return {
+      data: rows.map((school) => ({
+        ...this.toResponseDto(school),
+        deletedAt: school.deletedAt,
+      })),
+      total: count,
+      page: query.page,
+      limit,
+      pages: Math.ceil(count / limit),
+    };
+  }
+
+  async restore(id: string): Promise<SchoolResponseDto> {
+    const school = await this.schoolsRepository.findByPk(id, {
+      paranoid: false,
+    });
+
+    if (!school || !school.deletedAt) {
+      throw new NotFoundException('Deleted school not found');
     }
 
-    // Only admin of the school can update it
-    if (school.adminId !== adminId) {
-      throw new ForbiddenException(
-        'You do not have permission to update this school',
+    if (!(await this.usersRepository.findByPk(school.adminId))) {
+      throw new BadRequestException(
+        'The school admin has been deleted. Restore the admin first',
       );
     }
 
-    await school.update(updateSchoolDto);
+    await school.restore();
 
     return this.toResponseDto(school);
   }
 
-  async delete(id: string, adminId: string): Promise<void> {
-    const school = await this.schoolsRepository.findByPk(id);
+  /**
+   * Permanently removes schools deleted before `before`, together with
+   * their members, invitations, classes and enrollments.
+   */
+  async purgeDeleted(before: Date): Promise<number> {
+    const schools = await this.schoolsRepository.findAll({
+      where: { deletedAt: { [Op.lt]: before } },
+      paranoid: false,
+    });
 
-    if (!school) {
-      throw new NotFoundException('School not found');
+    let purged = 0;
+    for (const school of schools) {
+      try {
+        await school.destroy({ force: true });
+        purged++;
+      } catch (error) {
+        if (!(error instanceof ForeignKeyConstraintError)) {
+          throw error;
+        }
+        this.logger.warn(
+          `School ${school.id} is still referenced by ${error.table} and was not purged`,
+        );
+      }
     }
 
-    // Only admin of the school can delete it
-    if (school.adminId !== adminId) {
-      throw new ForbiddenException(
-        'You do not have permission to delete this school',
-      );
-    }
+    return purged;
+  }
 
-    await school.destroy();
+  async findByAdmin(adminId: string, query: SchoolListQueryDto): Promise<any> {
+    return this.findAll({ ...query, adminId });
   }
 
-  async findByAdmin(adminId: string, page: number = 1, limit: number = 10): Promise<any> {
-    const offset = (page - 1) * limit;
+  async findByMember(userId: string, query: SchoolListQueryDto): Promise<any> {
+    // Owners without a membership row are still listed via adminId
+    const options = {
+      where: QueryUtil.and(this.buildWhere(query), {
+        [Op.or]: [{ adminId: userId }, { '$members.userId$': userId }],
+      }),
+      include: [
+        {
+          model: SchoolMembers,
+          where: { userId },
+          required: false,
+        },
+      ],
+      subQuery: false,
+    };
+    const toMemberDto = (school: Schools) => ({
+      ...this.toResponseDto(school),
+      memberRole:
+        school.adminId === userId
+          ? CONSTANTS.SCHOOL_ROLES.ADMIN
+          : school.members[0]?.role,
+    });
+
+    if (CursorUtil.requested(query)) {
+      const { rows, nextCursor, prevCursor } = await CursorUtil.paginate(
+        this.schoolsRepository,
+        'schools',
+        query.cursor,
+        query.limit,
+        options,
+      );
+
+      return {
+        data: rows.map(toMemberDto),
+        limit: query.limit,
+        nextCursor,
+        prevCursor,
+      };
+    }
 
+    const { offset, limit } = QueryUtil.paginate(query);
     const { count, rows } = await this.schoolsRepository.findAndCountAll({
-      where: { adminId },
+      ...options,
+      distinct: true,
       offset,
       limit,
-      order: [['createdAt', 'DESC']],
+      order: QueryUtil.order(query.sort, SCHOOL_SORT_FIELDS),
     });
 
     return {
-      data: rows.map((school) => this.toResponseDto(school)),
+      data: rows.map(toMemberDto),
       total: count,
-      page,
+      page: query.page,
       limit,
       pages: Math.ceil(count / limit),
     };
   }
 
+  private buildWhere(query: SchoolListQueryDto): WhereOptions {
+    return QueryUtil.and(
+      QueryUtil.search(['name', 'email', 'phone'], query.search),
+      query.adminId ? { adminId: query.adminId } : undefined,
+      query.isActive !== undefined ? { isActive: query.isActive } : undefined,
+      QueryUtil.createdAtRange(query),
+    );
+  }
+
   private toResponseDto(school: Schools): SchoolResponseDto {
     return {
       id: school.id,
@@ -0,0 +1,9 @@
+export class SessionResponseDto {
+  id: string;
+  deviceLabel: string;
+  userAgent: string;
+  ipAddress: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../db/database.module';
+import { AuditModule } from '../audit/audit.module';
+import { SessionsService } from './sessions.service';
+import { sessionsProviders } from './sessions.provider';
+
+@Module({
+  imports: [DatabaseModule, AuditModule],
+  providers: [SessionsService, ...sessionsProviders],
+  exports: [SessionsService],
+})
+export class SessionsModule {}
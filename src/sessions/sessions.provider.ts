@@ -0,0 +1,8 @@
+import { RefreshTokens } from '../auth/auth.entity';
+
+export const sessionsProviders = [
+  {
+    provide: 'REFRESH_TOKENS_REPOSITORY',
+    useValue: RefreshTokens,
+  },
+];
@@ -0,0 +1,101 @@
+import { Injectable, Inject, NotFoundException } from '@nestjs/common';
+import { Op } from 'sequelize';
+import { RefreshTokens } from '../auth/auth.entity';
+import { AuditService } from '../audit/audit.service';
+import { SessionResponseDto } from './dto/session-response.dto';
+
+/**
+ * A session is a refresh token family: the login that started it plus
+ * every token issued by rotating it. Only the latest token of a live
+ * family is unrevoked, so the family id is the stable session id.
+ */
+@Injectable()
+export class SessionsService {
+  constructor(
+    @Inject('REFRESH_TOKENS_REPOSITORY')
+    private readonly refreshTokensRepository: typeof RefreshTokens,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async findActive(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionResponseDto[]> {
+    const tokens = await this.refreshTokensRepository.findAll({
+      where: {
+        userId,
+        isRevoked: false,
+        expiresAt: { [Op.gt]: new Date() },
+      },
+      order: [['lastUsedAt', 'DESC']],
+    });
+
+    return tokens.map((token) => this.toResponseDto(token, currentSessionId));
+  }
+
+  async revoke(
+    userId: string,
+    sessionId: string,
+    reason: string = 'session_revoked',
+  ): Promise<void> {
+    const [affected] = await this.refreshTokensRepository.update(
+      { isRevoked: true, revokedReason: reason },
+      { where: { userId, familyId: sessionId, isRevoked: false } },
+    );
+
+    if (affected === 0) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.auditService.record({
+      action: 'session.revoke',
+      targetType: 'user',
+      targetId: userId,
+      metadata: { sessionId, reason },
+    });
+  }
+
+  // `keepSessionId` spares the caller's own session
+  async revokeAll(
+    userId: string,
+    reason: string,
+    keepSessionId?: string,
+  ): Promise<number> {
+    const [affected] = await this.refreshTokensRepository.update(
+      { isRevoked: true, revokedReason: reason },
+      {
+        where: {
+          userId,
+          isRevoked: false,
+          ...(keepSessionId ? { familyId: { [Op.ne]: keepSessionId } } : {}),
+        },
+      },
+    );
+
+    if (affected > 0) {
+      await this.auditService.record({
+        action: 'session.revoke_all',
+        targetType: 'user',
+        targetId: userId,
+        metadata: { reason, revoked: affected },
+      });
+    }
+
+    return affected;
+  }
+
+  private toResponseDto(
+    token: RefreshTokens,
+    currentSessionId?: string,
+  ): SessionResponseDto {
+    return {
+      id: token.familyId,
+      deviceLabel: token.deviceLabel,
+      userAgent: token.userAgent,
+      ipAddress: token.ipAddress,
+      lastUsedAt: token.lastUsedAt,
+      expiresAt: token.expiresAt,
+      current: token.familyId === currentSessionId,
+    };
+  }
+}
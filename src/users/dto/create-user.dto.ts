@@ -1,11 +1,11 @@
-import { IsEmail, IsString, MinLength, IsOptional } from 'class-validator';
+import { IsEmail, IsString, IsOptional } from 'class-validator';
 
 export class CreateUserDto {
   @IsEmail({}, { message: 'Email must be valid' })
   email: string;
 
+  // Strength rules live in PasswordPolicyService
   @IsString()
-  @MinLength(8, { message: 'Password must be at least 8 characters' })
   password: string;
 
   @IsString()
@@ -19,8 +19,4 @@ export class CreateUserDto {
   @IsString()
   @IsOptional()
   whatsappNumber?: string;
-
-  @IsString()
-  @IsOptional()
-  role?: string = 'user';
 }
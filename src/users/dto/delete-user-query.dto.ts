@@ -0,0 +1,8 @@
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class DeleteUserQueryDto {
+  // Required when the user still administers schools
+  @IsUUID()
+  @IsOptional()
+  transferSchoolsTo?: string;
+}
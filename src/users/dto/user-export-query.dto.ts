@@ -0,0 +1,11 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { UserListQueryDto } from './user-list-query.dto';
+import { ExportUtil } from '../../common/utils/export.util';
+
+export class UserExportQueryDto extends UserListQueryDto {
+  @IsIn(ExportUtil.FORMATS, {
+    message: `Format must be one of: ${ExportUtil.FORMATS.join(', ')}`,
+  })
+  @IsOptional()
+  format: string = 'csv';
+}
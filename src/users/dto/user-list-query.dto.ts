@@ -0,0 +1,15 @@
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ListQueryDto, ToBoolean } from '../../common/dto/list-query.dto';
+
+export class UserListQueryDto extends ListQueryDto {
+  @IsString()
+  @MaxLength(50)
+  @IsOptional()
+  role?: string;
+
+  // true: currently locked out, false: not locked
+  @ToBoolean()
+  @IsBoolean()
+  @IsOptional()
+  locked?: boolean;
+}
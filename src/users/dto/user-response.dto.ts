@@ -8,7 +8,10 @@ export class UserResponseDto {
   bio: string;
   role: string;
   isActive: boolean;
+  emailVerifiedAt: Date;
+  mfaEnabled: boolean;
   lastLogin: Date;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date;
 }
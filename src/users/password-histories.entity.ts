@@ -0,0 +1,44 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { Users } from './users.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+@Table({
+  tableName: 'password_histories',
+  timestamps: true,
+  updatedAt: false,
+  indexes: [{ fields: ['userId', 'createdAt'] }],
+})
+export class PasswordHistories extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Users)
+  @Column({
+    type: DataType.UUID,
+  })
+  userId: string;
+
+  // bcrypt hash of a password the user has set
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(255),
+  })
+  passwordHash: string;
+
+  // Relationships
+  @BelongsTo(() => Users, { onDelete: 'CASCADE' })
+  user: Users;
+}
@@ -0,0 +1,157 @@
+import { Injectable, Inject, BadRequestException } from '@nestjs/common';
+import * as bcrypt from 'bcryptjs';
+import { Op, Transaction } from 'sequelize';
+import { Users } from './users.entity';
+import { PasswordHistories } from './password-histories.entity';
+import { COMMON_PASSWORDS } from './common-passwords';
+import { authConfig } from '../config/auth.config';
+
+interface PasswordOwner {
+  email: string;
+  name?: string | null;
+}
+
+@Injectable()
+export class PasswordPolicyService {
+  constructor(
+    @Inject('PASSWORD_HISTORIES_REPOSITORY')
+    private readonly passwordHistoriesRepository: typeof PasswordHistories,
+  ) {}
+
+  /**
+   * Checks complexity, personal details and the common password list.
+   * Every broken rule is reported at once, like a validation error.
+   */
+  assertValid(password: string, owner: PasswordOwner): void {
+    const errors: string[] = [];
+
+    if (password.length < authConfig.PASSWORD_MIN_LENGTH) {
+      errors.push(
+        `Password must be at least ${authConfig.PASSWORD_MIN_LENGTH} characters`,
+      );
+    }
+    if (Buffer.byteLength(password) > authConfig.PASSWORD_MAX_LENGTH) {
+      errors.push(
+        `Password must be at most ${authConfig.PASSWORD_MAX_LENGTH} bytes`,
+      );
+    }
+    if (authConfig.PASSWORD_REQUIRE_UPPERCASE && !/[A-Z]/.test(password)) {
+      errors.push('Password must contain an uppercase letter');
+    }
+    if (authConfig.PASSWORD_REQUIRE_LOWERCASE && !/[a-z]/.test(password)) {
+      errors.push('Password must contain a lowercase letter');
+    }
+    if (authConfig.PASSWORD_REQUIRE_DIGIT && !/\d/.test(password)) {
+      errors.push('Password must contain a digit');
+    }
+    if (authConfig.PASSWORD_REQUIRE_SYMBOL && !/[^A-Za-z0-9]/.test(password)) {
+      errors.push('Password must contain a symbol');
+    }
+    if (this.containsPersonalInfo(password, owner)) {
+      errors.push('Password must not contain your email or name');
+    }
+    if (this.isCommon(password)) {
+      errors.push('Password is too common or has appeared in a data breach');
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+  }
+
+  // Compares against the current hash and the remembered ones
+  async assertNotReused(
+    user: Users,
+    password: string,
+    transaction?: Transaction,
+  ): Promise<void> {
+    if (authConfig.PASSWORD_HISTORY_SIZE <= 0) {
+      return;
+    }
+
+    const history = await this.passwordHistoriesRepository.findAll({
+      where: { userId: user.id },
+      order: [['createdAt', 'DESC']],
+      limit: authConfig.PASSWORD_HISTORY_SIZE,
+      transaction,
+    });
+    const hashes = new Set([
+      user.password,
+      ...history.map((entry) => entry.passwordHash),
+    ]);
+
+    for (const hash of hashes) {
+      if (await bcrypt.compare(password, hash)) {
+        throw new BadRequestException(
+          `Password must differ from your last ${authConfig.PASSWORD_HISTORY_SIZE} passwords`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Stores a newly set hash and drops entries beyond the history size.
+   */
+  async remember(
+    userId: string,
+    passwordHash: string,
+    transaction?: Transaction,
+  ): Promise<void> {
+    if (authConfig.PASSWORD_HISTORY_SIZE <= 0) {
+      return;
+    }
+
+    await this.passwordHistoriesRepository.create(
+      { userId, passwordHash },
+      { transaction },
+    );
+
+    const kept = await this.passwordHistoriesRepository.findAll({
+      attributes: ['id'],
+      where: { userId },
+      order: [['createdAt', 'DESC']],
+      limit: authConfig.PASSWORD_HISTORY_SIZE,
+      transaction,
+    });
+    await this.passwordHistoriesRepository.destroy({
+      where: { userId, id: { [Op.notIn]: kept.map((entry) => entry.id) } },
+      transaction,
+    });
+  }
+
+  isExpired(user: Users): boolean {
+    if (authConfig.PASSWORD_MAX_AGE_DAYS <= 0) {
+      return false;
+    }
+
+    // Accounts created before expiry tracking count from their creation
+    const changedAt = user.passwordChangedAt || user.createdAt;
+    const maxAge = authConfig.PASSWORD_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+
+    return Date.now() - new Date(changedAt).getTime() > maxAge;
+  }
+
+  private containsPersonalInfo(
+    password: string,
+    owner: PasswordOwner,
+  ): boolean {
+    const lowered = password.toLowerCase();
+    const parts = [
+      owner.email.split('@')[0],
+      ...(owner.name || '').split(/\s+/),
+    ]
+      .map((part) => part.toLowerCase())
+      // Very short fragments would reject too many unrelated passwords
+      .filter((part) => part.length >= 3);
+
+    return parts.some((part) => lowered.includes(part));
+  }
+
+  // Also catches the usual suffixes, e.g. "Password123!" or "dragon1"
+  private isCommon(password: string): boolean {
+    const lowered = password.toLowerCase();
+    const base = lowered.replace(/[\d\W_]+$/, '');
+
+    return COMMON_PASSWORDS.has(lowered) || COMMON_PASSWORDS.has(base);
+  }
+}
@@ -9,33 +9,54 @@ import {
   Query,
   UseGuards,
   Request,
+  HttpCode,
+  Res,
+  ForbiddenException,
 } from '@nestjs/common';
+import type { Response } from 'express';
 import { UsersService } from './users.service';
+import { Users } from './users.entity';
+import { SessionsService } from '../sessions/sessions.service';
+import { DevicesService } from '../devices/devices.service';
+import { Devices } from '../devices/devices.entity';
+import { RolesService } from '../roles/roles.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { AssignRoleDto } from '../roles/dto/assign-role.dto';
+import { UserRoles } from '../roles/user-roles.entity';
+import { UserListQueryDto } from './dto/user-list-query.dto';
+import { UserExportQueryDto } from './dto/user-export-query.dto';
+import { DeleteUserQueryDto } from './dto/delete-user-query.dto';
+import { UpdateDeviceLimitDto } from '../devices/dto/update-device-limit.dto';
 import { JwtGuard } from '../common/guards/jwt.guard';
-import { RolesGuard } from '../common/guards/roles.guard';
-import { Roles } from '../common/decorators/roles.decorator';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { Permissions } from '../common/decorators/permissions.decorator';
 import { Public } from '../common/decorators/public.decorator';
+import { Audit } from '../common/decorators/audit.decorator';
+import { CONSTANTS } from '../common/utils/constants';
+import { ExportUtil } from '../common/utils/export.util';
 
 @Controller('users')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
+    private readonly devicesService: DevicesService,
+    private readonly rolesService: RolesService,
+  ) {}
 
   @Post()
   @Public()
+  @Audit('user.create', 'user', { model: Users })
   async create(@Body() createUserDto: CreateUserDto) {
     return this.usersService.create(createUserDto);
   }
 
   @Get()
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles('admin')
-  async findAll(
-    @Query('page') page: number = 1,
-    @Query('limit') limit: number = 10,
-  ) {
-    return this.usersService.findAll(page, limit);
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.USERS_READ)
+  async findAll(@Query() query: UserListQueryDto) {
+    return this.usersService.findAll(query);
   }
 
   @Get('me')
@@ -45,26 +66,200 @@ export class UsersController {
     return this.usersService.findById(userId);
   }
 
+  @Get('export')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.USERS_EXPORT)
+  async export(
+    @Request() req: any,
+    @Res() res: Response,
+    @Query() query: UserExportQueryDto,
+  ) {
+    const showContacts = await this.rolesService.hasPermissions(req.user.sub, [
+      CONSTANTS.PERMISSIONS.CONTACTS_VIEW,
+    ]);
+
+    await ExportUtil.stream(
+      res,
+      query.format,
+      'users',
+      this.usersService.getExportColumns(showContacts),
+      this.usersService.streamAll(query),
+    );
+  }
+
+  // Soft-deleted users, restorable until the retention job purges them
+  @Get('trash')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.USERS_DELETE)
+  async findDeleted(@Query() query: UserListQueryDto) {
+    return this.usersService.findDeleted(query);
+  }
+
+  @Get('locked')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.USERS_UNLOCK)
+  async findLocked(@Query() query: UserListQueryDto) {
+    return this.usersService.findLocked(query);
+  }
+
   @Get(':id')
   @UseGuards(JwtGuard)
-  async findOne(@Param('id') id: string) {
+  async findOne(@Param('id') id: string, @Request() req: any) {
+    await this.assertSelfOr(req, id, CONSTANTS.PERMISSIONS.USERS_READ);
     return this.usersService.findById(id);
   }
 
   @Put(':id')
   @UseGuards(JwtGuard)
+  @Audit('user.update', 'user', { model: Users })
   async update(
     @Param('id') id: string,
     @Body() updateUserDto: UpdateUserDto,
+    @Request() req: any,
   ) {
+    await this.assertSelfOr(req, id, CONSTANTS.PERMISSIONS.USERS_UPDATE);
     return this.usersService.update(id, updateUserDto);
   }
 
   @Delete(':id')
-  @UseGuards(JwtGuard, RolesGuard)
-  @Roles('admin')
-  async delete(@Param('id') id: string) {
-    await this.usersService.delete(id);
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.USERS_DELETE)
+  @Audit('user.delete', 'user', { model: Users })
+  async delete(@Param('id') id: string, @Query() query: DeleteUserQueryDto) {
+    await this.usersService.delete(id, query.transferSchoolsTo);
     return { message: 'User deleted successfully' };
   }
+
+  @Post(':id/restore')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.USERS_DELETE)
+  @HttpCode(200)
+  @Audit('user.restore', 'user', { model: Users })
+  async restore(@Param('id') id: string) {
+    return this.usersService.restore(id);
+  }
+
+  @Post(':id/unlock')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.USERS_UNLOCK)
+  @HttpCode(200)
+  @Audit('user.unlock', 'user', { model: Users })
+  async unlock(@Param('id') id: string) {
+    return this.usersService.unlock(id);
+  }
+
+  @Get(':id/roles')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.USERS_MANAGE_ROLES)
+  async getRoles(@Param('id') id: string) {
+    await this.usersService.findById(id);
+    return this.rolesService.findUserRoles(id);
+  }
+
+  @Post(':id/roles')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.USERS_MANAGE_ROLES)
+  @HttpCode(201)
+  @Audit('user.role_assign', 'user')
+  async assignRole(
+    @Param('id') id: string,
+    @Body() assignRoleDto: AssignRoleDto,
+  ) {
+    await this.usersService.findById(id);
+    return this.rolesService.assignRole(id, assignRoleDto);
+  }
+
+  @Delete(':id/roles/:assignmentId')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.USERS_MANAGE_ROLES)
+  @Audit('user.role_remove', 'user_role', {
+    model: UserRoles,
+    idParam: 'assignmentId',
+  })
+  async removeRole(
+    @Param('id') id: string,
+    @Param('assignmentId') assignmentId: string,
+  ) {
+    await this.rolesService.removeRole(id, assignmentId);
+    return { message: 'Role removed successfully' };
+  }
+
+  @Get(':id/sessions')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.SESSIONS_MANAGE)
+  async getSessions(@Param('id') id: string) {
+    await this.usersService.findById(id);
+    return this.sessionsService.findActive(id);
+  }
+
+  @Delete(':id/sessions/:sessionId')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.SESSIONS_MANAGE)
+  async revokeSession(
+    @Param('id') id: string,
+    @Param('sessionId') sessionId: string,
+  ) {
+    await this.sessionsService.revoke(id, sessionId, 'admin_revoked');
+    return { message: 'Session revoked successfully' };
+  }
+
+  @Delete(':id/sessions')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.SESSIONS_MANAGE)
+  async revokeAllSessions(@Param('id') id: string) {
+    await this.usersService.findById(id);
+    await this.sessionsService.revokeAll(id, 'admin_revoked');
+    return { message: 'All sessions revoked successfully' };
+  }
+
+  @Get(':id/devices')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.DEVICES_MANAGE)
+  async getDevices(@Param('id') id: string) {
+    await this.usersService.findById(id);
+    return this.devicesService.findForUser(id);
+  }
+
+  @Delete(':id/devices/:deviceId')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.DEVICES_MANAGE)
+  @Audit('device.remove', 'device', { model: Devices, idParam: 'deviceId' })
+  async removeDevice(
+    @Param('id') id: string,
+    @Param('deviceId') deviceId: string,
+  ) {
+    await this.devicesService.remove(id, deviceId);
+    return { message: 'Device removed successfully' };
+  }
+
+  @Put(':id/device-limit')
+  @UseGuards(JwtGuard, PermissionsGuard)
+  @Permissions(CONSTANTS.PERMISSIONS.DEVICES_MANAGE)
+  @Audit('user.device_limit', 'user', { model: Users })
+  async updateDeviceLimit(
+    @Param('id') id: string,
+    @Body() updateDeviceLimitDto: UpdateDeviceLimitDto,
+  ) {
+    return this.devicesService.setLimit(
+      id,
+      updateDeviceLimitDto.deviceLimit ?? null,
+    );
+  }
+
+  // Users may always act on their own record; others need the permission
+  private async assertSelfOr(
+    req: any,
+    id: string,
+    permission: string,
+  ): Promise<void> {
+    const userId = req.user.sub;
+    if (userId === id) return;
+
+    const allowed = await this.rolesService.hasPermissions(userId, [
+      permission,
+    ]);
+    if (!allowed) {
+      throw new ForbiddenException('Insufficient permissions');
+    }
+  }
 }
@@ -14,12 +14,17 @@ import { v4 as uuidv4 } from 'uuid';
 @Table({
   tableName: 'users',
   timestamps: true,
+  // Soft delete: a deleted account keeps its email until it is purged
+  paranoid: true,
   indexes: [
     { fields: ['email'], unique: true },
     { fields: ['createdAt'] },
     { fields: ['isActive'] },
     { fields: ['role'] },
     { fields: ['phone'] },
+    { fields: ['name'] },
+    { fields: ['lockedUntil'] },
+    { fields: ['deletedAt'] },
   ],
 })
 export class Users extends Model {
@@ -102,4 +107,57 @@ export class Users extends Model {
     type: DataType.DATE,
   })
   lockedUntil: Date;
+
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  passwordChangedAt: Date;
+
+  // Most devices the account may register; null means no limit
+  @AllowNull(true)
+  @Column({
+    type: DataType.INTEGER,
+  })
+  deviceLimit: number | null;
+
+  // Sign-ins refused because the device limit was reached
+  @Default(0)
+  @Column({
+    type: DataType.INTEGER,
+  })
+  unregisteredDeviceAttempts: number;
+
+  // Locks in a row without a successful sign-in, drives the backoff
+  @Default(0)
+  @Column({
+    type: DataType.INTEGER,
+  })
+  lockoutCount: number;
+
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  emailVerifiedAt: Date;
+
+  @Default(false)
+  @Column({
+    type: DataType.BOOLEAN,
+  })
+  mfaEnabled: boolean;
+
+  // TOTP secret, encrypted with EncryptUtil
+  @AllowNull(true)
+  @Column({
+    type: DataType.TEXT,
+  })
+  mfaSecret: string;
+
+  // Last accepted TOTP time step, so a code cannot be replayed
+  @AllowNull(true)
+  @Column({
+    type: DataType.INTEGER,
+  })
+  mfaLastUsedStep: number;
 }
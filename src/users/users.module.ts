@@ -1,13 +1,26 @@
 import { Module } from '@nestjs/common';
 import { DatabaseModule } from '../db/database.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { RolesModule } from '../roles/roles.module';
+import { AuditModule } from '../audit/audit.module';
+import { DevicesModule } from '../devices/devices.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 import { UsersService } from './users.service';
+import { PasswordPolicyService } from './password-policy.service';
 import { UsersController } from './users.controller';
 import { usersProviders } from './users.provider';
 
 @Module({
-  imports: [DatabaseModule],
-  providers: [UsersService, ...usersProviders],
+  imports: [
+    DatabaseModule,
+    SessionsModule,
+    RolesModule,
+    AuditModule,
+    DevicesModule,
+    WebhooksModule,
+  ],
+  providers: [UsersService, PasswordPolicyService, ...usersProviders],
   controllers: [UsersController],
-  exports: [UsersService],
+  exports: [UsersService, PasswordPolicyService],
 })
 export class UsersModule {}
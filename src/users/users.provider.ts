@@ -1,8 +1,28 @@
 import { Users } from './users.entity';
+import { PasswordHistories } from './password-histories.entity';
+import { Schools } from '../schools/schools.entity';
+import { SchoolMembers } from '../schools/school-members.entity';
+import { Enrollments } from '../classes/enrollments.entity';
 
 export const usersProviders = [
   {
     provide: 'USERS_REPOSITORY',
     useValue: Users,
   },
+  {
+    provide: 'PASSWORD_HISTORIES_REPOSITORY',
+    useValue: PasswordHistories,
+  },
+  {
+    provide: 'SCHOOLS_REPOSITORY',
+    useValue: Schools,
+  },
+  {
+    provide: 'SCHOOL_MEMBERS_REPOSITORY',
+    useValue: SchoolMembers,
+  },
+  {
+    provide: 'ENROLLMENTS_REPOSITORY',
+    useValue: Enrollments,
+  },
 ];
@@ -1,65 +1,247 @@
 import {
   Injectable,
   Inject,
+  Logger,
   NotFoundException,
   ConflictException,
+  BadRequestException,
 } from '@nestjs/common';
 import * as bcrypt from 'bcryptjs';
+import {
+  ForeignKeyConstraintError,
+  Op,
+  Transaction,
+  WhereOptions,
+} from 'sequelize';
 import { Users } from './users.entity';
+import { PasswordPolicyService } from './password-policy.service';
+import { Schools } from '../schools/schools.entity';
+import { SchoolMembers } from '../schools/school-members.entity';
+import { Enrollments } from '../classes/enrollments.entity';
+import { SessionsService } from '../sessions/sessions.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { CONSTANTS } from '../common/utils/constants';
+import { ExportColumn, ExportUtil } from '../common/utils/export.util';
+import { QueryUtil } from '../common/utils/query.util';
+import { CursorUtil } from '../common/utils/cursor.util';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { UserResponseDto } from './dto/user-response.dto';
+import { UserListQueryDto } from './dto/user-list-query.dto';
+
+const USER_SORT_FIELDS = [
+  'name',
+  'email',
+  'role',
+  'isActive',
+  'lastLogin',
+  'createdAt',
+];
 
 @Injectable()
 export class UsersService {
+  private readonly logger = new Logger('Users');
+
   constructor(
     @Inject('USERS_REPOSITORY')
     private readonly usersRepository: typeof Users,
+    @Inject('SCHOOLS_REPOSITORY')
+    private readonly schoolsRepository: typeof Schools,
+    @Inject('SCHOOL_MEMBERS_REPOSITORY')
+    private readonly schoolMembersRepository: typeof SchoolMembers,
+    @Inject('ENROLLMENTS_REPOSITORY')
+    private readonly enrollmentsRepository: typeof Enrollments,
+    private readonly sessionsService: SessionsService,
+    private readonly passwordPolicyService: PasswordPolicyService,
+    private readonly webhooksService: WebhooksService,
   ) {}
 
-  async create(createUserDto: CreateUserDto): Promise<UserResponseDto> {
-    // Check if user already exists
+  /**
+   * Creates an account. `generatedPassword` skips the password policy for
+   * random passwords the owner never types, such as SSO sign-ups.
+   * `schoolId` names the school the account is created for, which is
+   * notified through its webhooks.
+   */
+  async create(
+    createUserDto: CreateUserDto,
+    options: {
+      generatedPassword?: boolean;
+      transaction?: Transaction;
+      schoolId?: string;
+    } = {},
+  ): Promise<UserResponseDto> {
+    // Check if user already exists, including accounts in the trash
     const existingUser = await this.usersRepository.findOne({
       where: { email: createUserDto.email },
+      paranoid: false,
     });
 
+    if (existingUser?.deletedAt) {
+      throw new ConflictException(
+        'An account with this email was deleted and can be restored by an administrator',
+      );
+    }
+
     if (existingUser) {
       throw new ConflictException('User with this email already exists');
     }
 
+    if (!options.generatedPassword) {
+      this.passwordPolicyService.assertValid(
+        createUserDto.password,
+        createUserDto,
+      );
+    }
+
     // Hash password
     const hashedPassword = await bcrypt.hash(
       createUserDto.password,
       parseInt(process.env.BCRYPT_ROUNDS || '10'),
     );
 
-    // Create user
-    const user = await this.usersRepository.create({
-      ...createUserDto,
-      password: hashedPassword,
-    });
+    // Create user, inside the caller's transaction when given one
+    const persist = async (transaction: Transaction) => {
+      const created = await this.usersRepository.create(
+        {
+          ...createUserDto,
+          password: hashedPassword,
+          passwordChangedAt: new Date(),
+        },
+        { transaction },
+      );
+      await this.passwordPolicyService.remember(
+        created.id,
+        hashedPassword,
+        transaction,
+      );
+      if (options.schoolId) {
+        await this.emitCreated(created, options.schoolId, transaction);
+      }
+      return created;
+    };
+    const user = options.transaction
+      ? await persist(options.transaction)
+      : await this.usersRepository.sequelize!.transaction(persist);
 
     return this.toResponseDto(user);
   }
 
-  async findAll(page: number = 1, limit: number = 10): Promise<any> {
-    const offset = (page - 1) * limit;
+  /**
+   * Announces a new account to the school it was created for. Used by
+   * create() and by paths that insert users directly, such as imports.
+   */
+  async emitCreated(
+    user: Users,
+    schoolId: string,
+    transaction?: Transaction,
+  ): Promise<void> {
+    await this.webhooksService.emit(
+      schoolId,
+      CONSTANTS.WEBHOOK_EVENTS.USER_CREATED,
+      this.toResponseDto(user),
+      transaction,
+    );
+  }
+
+  async findAll(query: UserListQueryDto): Promise<any> {
+    if (CursorUtil.requested(query)) {
+      const { rows, nextCursor, prevCursor } = await CursorUtil.paginate(
+        this.usersRepository,
+        'users',
+        query.cursor,
+        query.limit,
+        { where: this.buildWhere(query) },
+      );
+
+      return {
+        data: rows.map((user) => this.toResponseDto(user)),
+        limit: query.limit,
+        nextCursor,
+        prevCursor,
+      };
+    }
+
+    const { offset, limit } = QueryUtil.paginate(query);
 
     const { count, rows } = await this.usersRepository.findAndCountAll({
+      where: this.buildWhere(query),
       offset,
       limit,
-      order: [['createdAt', 'DESC']],
+      order: QueryUtil.order(query.sort, USER_SORT_FIELDS),
     });
 
     return {
       data: rows.map((user) => this.toResponseDto(user)),
       total: count,
-      page,
+      page: query.page,
       limit,
       pages: Math.ceil(count / limit),
     };
   }
 
+  /**
+   * Walks every user matching the list filters in creation order, one
+   * keyset page at a time. `sort` does not apply.
+   */
+  async *streamAll(
+    query: UserListQueryDto,
+    batchSize: number = CONSTANTS.EXPORT.BATCH_SIZE,
+  ): AsyncGenerator<Users> {
+    const where = this.buildWhere(query);
+    let last: Users | null = null;
+
+    while (true) {
+      const batch: Users[] = await this.usersRepository.findAll({
+        where: QueryUtil.and(
+          where,
+          last
+            ? {
+                [Op.or]: [
+                  { createdAt: { [Op.gt]: last.createdAt } },
+                  { createdAt: last.createdAt, id: { [Op.gt]: last.id } },
+                ],
+              }
+            : undefined,
+        ),
+        order: [
+          ['createdAt', 'ASC'],
+          ['id', 'ASC'],
+        ],
+        limit: batchSize,
+      });
+
+      yield* batch;
+
+      if (batch.length < batchSize) {
+        return;
+      }
+      last = batch[batch.length - 1];
+    }
+  }
+
+  /**
+   * Export columns. Credentials and lock state are never exported, and
+   * phone numbers are masked unless the caller may view contact details.
+   */
+  getExportColumns(showContacts: boolean): ExportColumn<Users>[] {
+    const phone = (value: string) =>
+      showContacts ? value : ExportUtil.maskPhone(value);
+
+    return [
+      { header: 'id', value: (user) => user.id },
+      { header: 'email', value: (user) => user.email },
+      { header: 'name', value: (user) => user.name },
+      { header: 'phone', value: (user) => phone(user.phone) },
+      { header: 'whatsappNumber', value: (user) => phone(user.whatsappNumber) },
+      { header: 'role', value: (user) => user.role },
+      { header: 'isActive', value: (user) => user.isActive },
+      { header: 'emailVerifiedAt', value: (user) => user.emailVerifiedAt },
+      { header: 'mfaEnabled', value: (user) => user.mfaEnabled },
+      { header: 'lastLogin', value: (user) => user.lastLogin },
+      { header: 'createdAt', value: (user) => user.createdAt },
+    ];
+  }
+
   async findById(id: string): Promise<UserResponseDto> {
     const user = await this.usersRepository.findByPk(id);
 
@@ -70,6 +252,13 @@ export class UsersService {
     return this.toResponseDto(user);
   }
 
+  async findEntityById(
+    id: string,
+    transaction?: Transaction,
+  ): Promise<Users | null> {
+    return this.usersRepository.findByPk(id, { transaction });
+  }
+
   async findByEmail(email: string): Promise<Users | null> {
     const user = await this.usersRepository.findOne({
       where: { email },
@@ -85,19 +274,304 @@ export class UsersService {
       throw new NotFoundException('User not found');
     }
 
-    await user.update(updateUserDto);
+    await this.usersRepository.sequelize!.transaction(async (transaction) => {
+      await user.update(updateUserDto, { transaction });
+      await this.webhooksService.emitForUser(
+        id,
+        CONSTANTS.WEBHOOK_EVENTS.USER_UPDATED,
+        this.toResponseDto(user),
+        transaction,
+      );
+    });
 
     return this.toResponseDto(user);
   }
 
-  async delete(id: string): Promise<void> {
+  /**
+   * Sets a new password after checking it against the policy and the
+   * user's password history. Pass a transaction to make the change part
+   * of a larger unit, such as consuming a reset token.
+   */
+  async updatePassword(
+    id: string,
+    password: string,
+    transaction?: Transaction,
+  ): Promise<void> {
+    const user = await this.usersRepository.findByPk(id, { transaction });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    this.passwordPolicyService.assertValid(password, user);
+    await this.passwordPolicyService.assertNotReused(
+      user,
+      password,
+      transaction,
+    );
+
+    const hashedPassword = await bcrypt.hash(
+      password,
+      parseInt(process.env.BCRYPT_ROUNDS || '10'),
+    );
+
+    // A new password also clears any brute-force lockout on the account
+    await user.update(
+      {
+        password: hashedPassword,
+        passwordChangedAt: new Date(),
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        lockoutCount: 0,
+      },
+      { transaction },
+    );
+    await this.passwordPolicyService.remember(id, hashedPassword, transaction);
+  }
+
+  // Accounts currently locked out, soonest to unlock first
+  async findLocked(query: UserListQueryDto): Promise<any> {
+    const { offset, limit } = QueryUtil.paginate(query);
+
+    const { count, rows } = await this.usersRepository.findAndCountAll({
+      where: QueryUtil.and(this.buildWhere(query), {
+        lockedUntil: { [Op.gt]: new Date() },
+      }),
+      offset,
+      limit,
+      order: QueryUtil.order(
+        query.sort,
+        [...USER_SORT_FIELDS, 'lockedUntil'],
+        'lockedUntil',
+      ),
+    });
+
+    return {
+      data: rows.map((user) => ({
+        ...this.toResponseDto(user),
+        lockedUntil: user.lockedUntil,
+        failedLoginAttempts: user.failedLoginAttempts,
+        lockoutCount: user.lockoutCount,
+      })),
+      total: count,
+      page: query.page,
+      limit,
+      pages: Math.ceil(count / limit),
+    };
+  }
+
+  /**
+   * Lifts a lockout early and resets the backoff, so the next lock starts
+   * again from the base duration.
+   */
+  async unlock(id: string): Promise<UserResponseDto> {
     const user = await this.usersRepository.findByPk(id);
 
     if (!user) {
       throw new NotFoundException('User not found');
     }
 
-    await user.destroy();
+    if (!user.lockedUntil || user.lockedUntil <= new Date()) {
+      throw new BadRequestException('User account is not locked');
+    }
+
+    await user.update({
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      lockoutCount: 0,
+      unregisteredDeviceAttempts: 0,
+    });
+
+    return this.toResponseDto(user);
+  }
+
+  /**
+   * Soft-deletes the user and revokes their refresh tokens. Schools they
+   * administer must be handed to `transferSchoolsTo` in the same step, so
+   * no school is left pointing at a deleted admin.
+   */
+  async delete(id: string, transferSchoolsTo?: string): Promise<void> {
+    const user = await this.usersRepository.findByPk(id);
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const schools = await this.schoolsRepository.findAll({
+      where: { adminId: id },
+    });
+
+    if (schools.length > 0 && !transferSchoolsTo) {
+      throw new ConflictException(
+        `User administers ${schools.length} school(s). Pass transferSchoolsTo to hand them over`,
+      );
+    }
+
+    if (schools.length > 0) {
+      if (transferSchoolsTo === id) {
+        throw new BadRequestException(
+          'Schools cannot be transferred to the user being deleted',
+        );
+      }
+      if (!(await this.usersRepository.findByPk(transferSchoolsTo))) {
+        throw new NotFoundException('New school admin not found');
+      }
+    }
+
+    await this.usersRepository.sequelize!.transaction(async (transaction) => {
+      for (const school of schools) {
+        await school.update({ adminId: transferSchoolsTo }, { transaction });
+
+        const [member] = await this.schoolMembersRepository.findOrCreate({
+          where: { schoolId: school.id, userId: transferSchoolsTo },
+          defaults: { role: CONSTANTS.SCHOOL_ROLES.ADMIN },
+          transaction,
+        });
+        if (member.role !== CONSTANTS.SCHOOL_ROLES.ADMIN) {
+          await member.update(
+            { role: CONSTANTS.SCHOOL_ROLES.ADMIN },
+            { transaction },
+          );
+        }
+      }
+
+      await this.webhooksService.emitForUser(
+        id,
+        CONSTANTS.WEBHOOK_EVENTS.USER_DEACTIVATED,
+        this.toResponseDto(user),
+        transaction,
+      );
+      await user.destroy({ transaction });
+    });
+
+    await this.sessionsService.revokeAll(id, 'user_deleted');
+  }
+
+  async findDeleted(query: UserListQueryDto): Promise<any> {
+    const { offset, limit } = QueryUtil.paginate(query);
+
+    const { count, rows } = await this.usersRepository.findAndCountAll({
+      where: QueryUtil.and(this.buildWhere(query), {
+        deletedAt: { [Op.ne]: null },
+      }),
+      paranoid: false,
+      offset,
+      limit,
+      order: QueryUtil.order(
+        query.sort,
+        [...USER_SORT_FIELDS, 'deletedAt'],
+        '-deletedAt',
+      ),
+    });
+
+    return {
+      data: rows.map((user) => ({
+        ...this.toResponseDto(user),
+        deletedAt: user.deletedAt,
+      })),
+      total: count,
+      page: query.page,
+      limit,
+      pages: Math.ceil(count / limit),
+    };
+  }
+
+  async restore(id: string): Promise<UserResponseDto> {
+    const user = await this.usersRepository.findByPk(id, { paranoid: false });
+
+    if (!user || !user.deletedAt) {
+      throw new NotFoundException('Deleted user not found');
+    }
+
+    await this.usersRepository.sequelize!.transaction(async (transaction) => {
+      await user.restore({ transaction });
+      await this.webhooksService.emitForUser(
+        id,
+        CONSTANTS.WEBHOOK_EVENTS.USER_REACTIVATED,
+        this.toResponseDto(user),
+        transaction,
+      );
+    });
+
+    return this.toResponseDto(user);
+  }
+
+  /**
+   * Permanently removes users deleted before `before`. Credentials,
+   * memberships, enrollments and import jobs cascade, and invitations and
+   * classes lose the reference. Users still referenced elsewhere, such as
+   * a school they administer, stay in the trash and are reported.
+   */
+  async purgeDeleted(before: Date): Promise<number> {
+    const users = await this.usersRepository.findAll({
+      where: { deletedAt: { [Op.lt]: before } },
+      paranoid: false,
+    });
+
+    let purged = 0;
+    for (const user of users) {
+      try {
+        await this.usersRepository.sequelize!.transaction(
+          async (transaction) => {
+            const enrollments = await this.enrollmentsRepository.findAll({
+              attributes: ['schoolId'],
+              where: {
+                studentId: user.id,
+                status: CONSTANTS.ENROLLMENT_STATUS.ACTIVE,
+              },
+              transaction,
+            });
+
+            await user.destroy({ force: true, transaction });
+
+            // Active enrollments went with the user, so recount the schools
+            const schoolIds = new Set(
+              enrollments.map((enrollment) => enrollment.schoolId),
+            );
+            for (const schoolId of schoolIds) {
+              const totalStudents = await this.enrollmentsRepository.count({
+                where: { schoolId, status: CONSTANTS.ENROLLMENT_STATUS.ACTIVE },
+                transaction,
+              });
+              await this.schoolsRepository.update(
+                { totalStudents },
+                { where: { id: schoolId }, transaction },
+              );
+            }
+          },
+        );
+        purged++;
+      } catch (error) {
+        if (!(error instanceof ForeignKeyConstraintError)) {
+          throw error;
+        }
+        this.logger.warn(
+          `User ${user.id} is still referenced by ${error.table} and was not purged`,
+        );
+      }
+    }
+
+    return purged;
+  }
+
+  private buildWhere(query: UserListQueryDto): WhereOptions {
+    const now = new Date();
+    let locked: WhereOptions | undefined;
+    if (query.locked === true) {
+      locked = { lockedUntil: { [Op.gt]: now } };
+    } else if (query.locked === false) {
+      locked = {
+        [Op.or]: [{ lockedUntil: null }, { lockedUntil: { [Op.lte]: now } }],
+      };
+    }
+
+    return QueryUtil.and(
+      QueryUtil.search(['name', 'email', 'phone'], query.search),
+      query.role ? { role: query.role } : undefined,
+      query.isActive !== undefined ? { isActive: query.isActive } : undefined,
+      locked,
+      QueryUtil.createdAtRange(query),
+    );
   }
 
   private toResponseDto(user: Users): UserResponseDto {
@@ -111,6 +585,8 @@ export class UsersService {
       bio: user.bio,
       role: user.role,
       isActive: user.isActive,
+      emailVerifiedAt: user.emailVerifiedAt,
+      mfaEnabled: user.mfaEnabled,
       lastLogin: user.lastLogin,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
@@ -0,0 +1,39 @@
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { appConfig } from '../../config/app.config';
+import { SUBSCRIBABLE_EVENTS } from '../webhook.events';
+
+const production = appConfig.NODE_ENV === 'production';
+
+// Plain http and hosts without a TLD are only accepted outside production.
+// Hosts that resolve to private addresses are refused by WebhooksService
+export const WEBHOOK_URL_OPTIONS = {
+  protocols: production ? ['https'] : ['http', 'https'],
+  require_protocol: true,
+  require_tld: production,
+};
+
+export class CreateWebhookDto {
+  @IsUrl(WEBHOOK_URL_OPTIONS)
+  @MaxLength(2048)
+  url: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsIn(SUBSCRIBABLE_EVENTS, { each: true })
+  events: string[];
+
+  @IsString()
+  @MaxLength(255)
+  @IsOptional()
+  description?: string;
+}
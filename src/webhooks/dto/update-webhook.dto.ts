@@ -0,0 +1,37 @@
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { SUBSCRIBABLE_EVENTS } from '../webhook.events';
+import { WEBHOOK_URL_OPTIONS } from './create-webhook.dto';
+
+export class UpdateWebhookDto {
+  @IsUrl(WEBHOOK_URL_OPTIONS)
+  @MaxLength(2048)
+  @IsOptional()
+  url?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsIn(SUBSCRIBABLE_EVENTS, { each: true })
+  @IsOptional()
+  events?: string[];
+
+  @IsString()
+  @MaxLength(255)
+  @IsOptional()
+  description?: string;
+
+  // Paused subscriptions receive no events
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
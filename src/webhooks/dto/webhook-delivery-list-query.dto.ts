@@ -0,0 +1,13 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ListQueryDto } from '../../common/dto/list-query.dto';
+import { CONSTANTS } from '../../common/utils/constants';
+
+export class WebhookDeliveryListQueryDto extends ListQueryDto {
+  @IsIn(Object.values(CONSTANTS.WEBHOOK_DELIVERY_STATUS))
+  @IsOptional()
+  status?: string;
+
+  @IsIn(Object.values(CONSTANTS.WEBHOOK_EVENTS))
+  @IsOptional()
+  event?: string;
+}
@@ -0,0 +1,12 @@
+export class WebhookDeliveryResponseDto {
+  id: string;
+  subscriptionId: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: string;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  lastAttemptAt: Date | null;
+  createdAt: Date;
+}
@@ -0,0 +1,12 @@
+export class WebhookResponseDto {
+  id: string;
+  schoolId: string;
+  url: string;
+  events: string[];
+  description: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  // Only returned when the subscription is created or its secret rotated
+  secret?: string;
+}
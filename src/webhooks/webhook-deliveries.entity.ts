@@ -0,0 +1,87 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { WebhookSubscriptions } from './webhook-subscriptions.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Delivery history: one row per event sent to a subscription, updated
+ * after every attempt.
+ */
+@Table({
+  tableName: 'webhook_deliveries',
+  timestamps: true,
+  indexes: [
+    { fields: ['subscriptionId', 'createdAt'] },
+    { fields: ['status'] },
+  ],
+})
+export class WebhookDeliveries extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => WebhookSubscriptions)
+  @Column({
+    type: DataType.UUID,
+  })
+  subscriptionId: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(50),
+  })
+  event: string;
+
+  // Request body, kept as sent so retries deliver the same content
+  @AllowNull(false)
+  @Column({
+    type: DataType.JSONB,
+  })
+  payload: Record<string, unknown>;
+
+  @Default('pending')
+  @Column({
+    type: DataType.STRING(20),
+  })
+  status: string;
+
+  @Default(0)
+  @Column({
+    type: DataType.INTEGER,
+  })
+  attempts: number;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.INTEGER,
+  })
+  responseStatus: number;
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.TEXT,
+  })
+  error: string;
+
+  @Default(null)
+  @Column({
+    type: DataType.DATE,
+  })
+  lastAttemptAt: Date;
+
+  // Relationships
+  @BelongsTo(() => WebhookSubscriptions, { onDelete: 'CASCADE' })
+  subscription: WebhookSubscriptions;
+}
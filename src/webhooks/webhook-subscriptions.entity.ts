@@ -0,0 +1,68 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { Schools } from '../schools/schools.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+@Table({
+  tableName: 'webhook_subscriptions',
+  timestamps: true,
+  indexes: [{ fields: ['schoolId'] }],
+})
+export class WebhookSubscriptions extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: () => uuidv4(),
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Schools)
+  @Column({
+    type: DataType.UUID,
+  })
+  schoolId: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(2048),
+  })
+  url: string;
+
+  // Signing secret, encrypted with EncryptUtil
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING(255),
+  })
+  secret: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.ARRAY(DataType.STRING(50)),
+  })
+  events: string[];
+
+  @AllowNull(true)
+  @Column({
+    type: DataType.STRING(255),
+  })
+  description: string;
+
+  @Default(true)
+  @Column({
+    type: DataType.BOOLEAN,
+  })
+  isActive: boolean;
+
+  // Relationships
+  @BelongsTo(() => Schools, { onDelete: 'CASCADE' })
+  school: Schools;
+}
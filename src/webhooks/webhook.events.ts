@@ -0,0 +1,6 @@
+import { CONSTANTS } from '../common/utils/constants';
+
+// Events a subscription may choose; the test event is always allowed
+export const SUBSCRIBABLE_EVENTS = Object.values(
+  CONSTANTS.WEBHOOK_EVENTS,
+).filter((event) => event !== CONSTANTS.WEBHOOK_EVENTS.TEST);
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../db/database.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { WebhooksService } from './webhooks.service';
+import { webhooksProviders } from './webhooks.provider';
+
+// Subscriptions are managed through SchoolWebhooksController in the
+// schools module, which can check school roles without an import cycle
+@Module({
+  imports: [DatabaseModule, JobsModule],
+  providers: [WebhooksService, ...webhooksProviders],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
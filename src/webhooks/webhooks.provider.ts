@@ -0,0 +1,18 @@
+import { WebhookSubscriptions } from './webhook-subscriptions.entity';
+import { WebhookDeliveries } from './webhook-deliveries.entity';
+import { SchoolMembers } from '../schools/school-members.entity';
+
+export const webhooksProviders = [
+  {
+    provide: 'WEBHOOK_SUBSCRIPTIONS_REPOSITORY',
+    useValue: WebhookSubscriptions,
+  },
+  {
+    provide: 'WEBHOOK_DELIVERIES_REPOSITORY',
+    useValue: WebhookDeliveries,
+  },
+  {
+    provide: 'SCHOOL_MEMBERS_REPOSITORY',
+    useValue: SchoolMembers,
+  },
+];
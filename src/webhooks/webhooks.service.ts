@@ -0,0 +1,456 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  OnModuleInit,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import { Op, Transaction } from 'sequelize';
+import { WebhookSubscriptions } from './webhook-subscriptions.entity';
+import { WebhookDeliveries } from './webhook-deliveries.entity';
+import { SchoolMembers } from '../schools/school-members.entity';
+import { Jobs } from '../jobs/jobs.entity';
+import { JobsService } from '../jobs/jobs.service';
+import { EncryptUtil } from '../common/utils/encrypt.util';
+import { NetworkUtil } from '../common/utils/network.util';
+import { CONSTANTS } from '../common/utils/constants';
+import { QueryUtil } from '../common/utils/query.util';
+import { securityConfig } from '../config/security.config';
+import { webhooksConfig } from '../config/webhooks.config';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { WebhookResponseDto } from './dto/webhook-response.dto';
+import { WebhookDeliveryResponseDto } from './dto/webhook-delivery-response.dto';
+import { WebhookDeliveryListQueryDto } from './dto/webhook-delivery-list-query.dto';
+
+const { SUCCEEDED, RETRYING, FAILED } = CONSTANTS.WEBHOOK_DELIVERY_STATUS;
+
+/**
+ * Outbound webhooks. Each delivery is a POST of a JSON body with
+ *   X-Webhook-Id         delivery id, stable across retries
+ *   X-Webhook-Event      event name
+ *   X-Webhook-Timestamp  unix seconds of this attempt
+ *   X-Webhook-Signature  "sha256=" + hex HMAC-SHA256 of "<timestamp>.<body>"
+ * Receivers should recompute the signature and reject old timestamps.
+ */
+@Injectable()
+export class WebhooksService implements OnModuleInit {
+  private readonly logger = new Logger('Webhooks');
+
+  constructor(
+    @Inject('WEBHOOK_SUBSCRIPTIONS_REPOSITORY')
+    private readonly subscriptionsRepository: typeof WebhookSubscriptions,
+    @Inject('WEBHOOK_DELIVERIES_REPOSITORY')
+    private readonly deliveriesRepository: typeof WebhookDeliveries,
+    @Inject('SCHOOL_MEMBERS_REPOSITORY')
+    private readonly schoolMembersRepository: typeof SchoolMembers,
+    private readonly jobsService: JobsService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobsService.register(
+      'webhook.deliver',
+      ({ deliveryId }: { deliveryId: string }, job: Jobs) =>
+        this.deliverQueued(deliveryId, job),
+    );
+  }
+
+  async create(
+    schoolId: string,
+    createWebhookDto: CreateWebhookDto,
+  ): Promise<WebhookResponseDto> {
+    const count = await this.subscriptionsRepository.count({
+      where: { schoolId },
+    });
+    if (count >= webhooksConfig.MAX_SUBSCRIPTIONS_PER_SCHOOL) {
+      throw new BadRequestException(
+        `A school can have at most ${webhooksConfig.MAX_SUBSCRIPTIONS_PER_SCHOOL} webhooks`,
+      );
+    }
+
+    await this.assertDeliverable(createWebhookDto.url);
+
+    const secret = this.generateSecret();
+    const subscription = await this.subscriptionsRepository.create({
+      ...createWebhookDto,
+      schoolId,
+      secret: EncryptUtil.encrypt(secret, securityConfig.ENCRYPTION_KEY),
+    });
+
+    return { ...this.toResponseDto(subscription), secret };
+  }
+
+  async findAll(schoolId: string): Promise<WebhookResponseDto[]> {
+    const subscriptions = await this.subscriptionsRepository.findAll({
+      where: { schoolId },
+      order: [['createdAt', 'ASC']],
+    });
+
+    return subscriptions.map((subscription) =>
+      this.toResponseDto(subscription),
+    );
+  }
+
+  async findOne(schoolId: string, id: string): Promise<WebhookResponseDto> {
+    return this.toResponseDto(await this.findSubscription(schoolId, id));
+  }
+
+  async update(
+    schoolId: string,
+    id: string,
+    updateWebhookDto: UpdateWebhookDto,
+  ): Promise<WebhookResponseDto> {
+    const subscription = await this.findSubscription(schoolId, id);
+    if (updateWebhookDto.url) {
+      await this.assertDeliverable(updateWebhookDto.url);
+    }
+
+    await subscription.update(updateWebhookDto);
+
+    return this.toResponseDto(subscription);
+  }
+
+  async remove(schoolId: string, id: string): Promise<void> {
+    const subscription = await this.findSubscription(schoolId, id);
+
+    await subscription.destroy();
+  }
+
+  // The old secret stops working immediately
+  async rotateSecret(
+    schoolId: string,
+    id: string,
+  ): Promise<WebhookResponseDto> {
+    const subscription = await this.findSubscription(schoolId, id);
+
+    const secret = this.generateSecret();
+    await subscription.update({
+      secret: EncryptUtil.encrypt(secret, securityConfig.ENCRYPTION_KEY),
+    });
+
+    return { ...this.toResponseDto(subscription), secret };
+  }
+
+  async findDeliveries(
+    schoolId: string,
+    id: string,
+    query: WebhookDeliveryListQueryDto,
+  ) {
+    await this.findSubscription(schoolId, id);
+    const { offset, limit } = QueryUtil.paginate(query);
+
+    const { count, rows } = await this.deliveriesRepository.findAndCountAll({
+      where: QueryUtil.and(
+        { subscriptionId: id },
+        query.status ? { status: query.status } : undefined,
+        query.event ? { event: query.event } : undefined,
+        QueryUtil.createdAtRange(query),
+      ),
+      offset,
+      limit,
+      order: QueryUtil.order(query.sort, [
+        'createdAt',
+        'lastAttemptAt',
+        'status',
+      ]),
+    });
+
+    return {
+      data: rows.map((delivery) => this.toDeliveryDto(delivery)),
+      total: count,
+      page: query.page,
+      limit,
+      pages: Math.ceil(count / limit),
+    };
+  }
+
+  /**
+   * Sends a test event right away, without retries, and returns the
+   * status and error so integrators can check their endpoint and
+   * signature code. Paused subscriptions can be tested too.
+   */
+  async sendTest(
+    schoolId: string,
+    id: string,
+  ): Promise<WebhookDeliveryResponseDto> {
+    const subscription = await this.findSubscription(schoolId, id);
+    const delivery = await this.deliveriesRepository.create({
+      subscriptionId: subscription.id,
+      event: CONSTANTS.WEBHOOK_EVENTS.TEST,
+      payload: this.buildPayload(schoolId, CONSTANTS.WEBHOOK_EVENTS.TEST, {
+        message: 'This is a test event',
+      }),
+    });
+
+    await this.attempt(delivery, subscription).catch(() => undefined);
+    if (delivery.status !== SUCCEEDED) {
+      await delivery.update({ status: FAILED });
+    }
+
+    return this.toDeliveryDto(delivery);
+  }
+
+  /**
+   * Records a delivery for every active subscription of the school that
+   * wants the event and queues it. Pass the transaction of the change so
+   * the event is only sent if the change commits.
+   */
+  async emit(
+    schoolId: string,
+    event: string,
+    data: object,
+    transaction?: Transaction,
+  ): Promise<void> {
+    await this.emitToSchools([schoolId], event, data, transaction);
+  }
+
+  // User events go to every school the user is a member of
+  async emitForUser(
+    userId: string,
+    event: string,
+    data: object,
+    transaction?: Transaction,
+  ): Promise<void> {
+    const memberships = await this.schoolMembersRepository.findAll({
+      attributes: ['schoolId'],
+      where: { userId },
+      transaction,
+    });
+
+    await this.emitToSchools(
+      memberships.map((member) => member.schoolId),
+      event,
+      data,
+      transaction,
+    );
+  }
+
+  private async emitToSchools(
+    schoolIds: string[],
+    event: string,
+    data: object,
+    transaction?: Transaction,
+  ): Promise<void> {
+    if (schoolIds.length === 0) {
+      return;
+    }
+
+    const subscriptions = await this.subscriptionsRepository.findAll({
+      where: {
+        schoolId: { [Op.in]: schoolIds },
+        isActive: true,
+        events: { [Op.contains]: [event] },
+      },
+      transaction,
+    });
+
+    for (const subscription of subscriptions) {
+      const delivery = await this.deliveriesRepository.create(
+        {
+          subscriptionId: subscription.id,
+          event,
+          payload: this.buildPayload(subscription.schoolId, event, data),
+        },
+        { transaction },
+      );
+      await this.jobsService.enqueue(
+        'webhook.deliver',
+        { deliveryId: delivery.id },
+        { transaction, maxAttempts: webhooksConfig.MAX_ATTEMPTS },
+      );
+    }
+  }
+
+  // Throws on failure so the job queue schedules the next attempt
+  private async deliverQueued(deliveryId: string, job: Jobs): Promise<void> {
+    const delivery = await this.deliveriesRepository.findByPk(deliveryId, {
+      include: [WebhookSubscriptions],
+    });
+
+    // Removed along with its subscription
+    if (!delivery) {
+      return;
+    }
+
+    try {
+      await this.attempt(delivery, delivery.subscription);
+    } catch (error) {
+      await delivery.update({
+        status: job.attempts >= job.maxAttempts ? FAILED : RETRYING,
+      });
+      throw error;
+    }
+  }
+
+  private async attempt(
+    delivery: WebhookDeliveries,
+    subscription: WebhookSubscriptions,
+  ): Promise<void> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const secret = EncryptUtil.decrypt(
+      subscription.secret,
+      securityConfig.ENCRYPTION_KEY,
+    );
+    const signature = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      responseStatus = await this.post(subscription.url, body, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'LearningPlatform-Webhooks/1.0',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${signature}`,
+      });
+      // Redirects are not followed, they could point anywhere
+      if (responseStatus < 200 || responseStatus >= 300) {
+        error = `Receiver responded ${responseStatus}`;
+      }
+    } catch (requestError) {
+      error = (requestError as Error).message;
+    }
+
+    await delivery.update({
+      status: error ? delivery.status : SUCCEEDED,
+      attempts: delivery.attempts + 1,
+      responseStatus,
+      error,
+      lastAttemptAt: new Date(),
+    });
+
+    if (error) {
+      this.logger.warn(
+        `Webhook delivery ${delivery.id} to ${subscription.url} failed: ${error}`,
+      );
+      throw new Error(error);
+    }
+  }
+
+  /**
+   * Resolves the status code only; the receiver's body is never read.
+   * Every address the host resolves to must be public, checked again on
+   * each attempt so a DNS change cannot point deliveries inward.
+   */
+  private async post(
+    url: string,
+    body: string,
+    headers: Record<string, string>,
+  ): Promise<number> {
+    const target = new URL(url);
+    if (!webhooksConfig.ALLOW_PRIVATE_NETWORKS) {
+      await NetworkUtil.assertPublicHost(target.hostname);
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = (target.protocol === 'https:' ? https : http).request(
+        target,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+          timeout: webhooksConfig.TIMEOUT,
+          lookup: webhooksConfig.ALLOW_PRIVATE_NETWORKS
+            ? undefined
+            : NetworkUtil.publicLookup,
+        },
+        (response) => {
+          response.destroy();
+          resolve(response.statusCode ?? 0);
+        },
+      );
+      request.on('timeout', () =>
+        request.destroy(new Error('Receiver timed out')),
+      );
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  private async assertDeliverable(url: string): Promise<void> {
+    if (webhooksConfig.ALLOW_PRIVATE_NETWORKS) {
+      return;
+    }
+
+    try {
+      await NetworkUtil.assertPublicHost(new URL(url).hostname);
+    } catch (error) {
+      throw new BadRequestException(
+        `Webhook URL is not deliverable: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private buildPayload(
+    schoolId: string,
+    event: string,
+    data: object,
+  ): Record<string, unknown> {
+    return {
+      event,
+      schoolId,
+      occurredAt: new Date().toISOString(),
+      data,
+    };
+  }
+
+  private generateSecret(): string {
+    return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+  }
+
+  private async findSubscription(
+    schoolId: string,
+    id: string,
+  ): Promise<WebhookSubscriptions> {
+    const subscription = await this.subscriptionsRepository.findOne({
+      where: { id, schoolId },
+    });
+
+    if (!subscription) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    return subscription;
+  }
+
+  private toResponseDto(
+    subscription: WebhookSubscriptions,
+  ): WebhookResponseDto {
+    return {
+      id: subscription.id,
+      schoolId: subscription.schoolId,
+      url: subscription.url,
+      events: subscription.events,
+      description: subscription.description,
+      isActive: subscription.isActive,
+      createdAt: subscription.createdAt,
+      updatedAt: subscription.updatedAt,
+    };
+  }
+
+  private toDeliveryDto(
+    delivery: WebhookDeliveries,
+  ): WebhookDeliveryResponseDto {
+    return {
+      id: delivery.id,
+      subscriptionId: delivery.subscriptionId,
+      event: delivery.event,
+      payload: delivery.payload,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      error: delivery.error,
+      lastAttemptAt: delivery.lastAttemptAt,
+      createdAt: delivery.createdAt,
+    };
+  }
+}